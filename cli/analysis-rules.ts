@@ -0,0 +1,244 @@
+import * as path from "path";
+import {
+  GitHubRepository,
+  RepositoryUpdateData,
+  AnalysisRule,
+  AnalysisContext,
+  RuleResult,
+  RepositoryAnalysis,
+} from "./types.js";
+import {
+  isMalformedHomepage,
+  isHomepageProblem,
+  describeHomepageCheck,
+} from "./homepage-check.js";
+import { describeBranchProtection } from "./branch-protection.js";
+import {
+  missingCommunityFiles,
+  describeCommunityFiles,
+} from "./community-files.js";
+
+/**
+ * Rules shipped with the CLI
+ */
+export const BUILT_IN_RULES: AnalysisRule[] = [
+  {
+    id: "missing-description",
+    title: "repositories missing descriptions",
+    severity: "warning",
+    check: (repo) => !repo.description || repo.description.trim() === "",
+  },
+  {
+    id: "missing-homepage",
+    title: "repositories missing homepages",
+    severity: "info",
+    check: (repo) => !repo.homepage || repo.homepage.trim() === "",
+  },
+  {
+    id: "broken-homepage",
+    title: "repositories with potentially broken homepages",
+    severity: "error",
+    check: (repo, context) => {
+      if (isMalformedHomepage(repo.homepage)) return true;
+
+      const result = context.homepageChecks.get(repo.id);
+      return result !== undefined && isHomepageProblem(result);
+    },
+    describe: (repo, context) => {
+      const result = context.homepageChecks.get(repo.id);
+      return `Homepage: ${repo.homepage} (${
+        result ? describeHomepageCheck(result) : "Malformed URL"
+      })`;
+    },
+    autoFix: (repo, context) => {
+      const result = context.homepageChecks.get(repo.id);
+      if (result?.finalUrl) {
+        return { homepage: result.finalUrl };
+      }
+
+      // A bare domain only needs a scheme; local addresses have no public fix
+      const homepage = repo.homepage?.trim() ?? "";
+      if (
+        homepage !== "" &&
+        !/^[a-z]+:\/\//i.test(homepage) &&
+        !/localhost|127\.0\.0\.1/i.test(homepage)
+      ) {
+        return { homepage: `https://${homepage}` };
+      }
+      return undefined;
+    },
+  },
+  {
+    id: "unprotected-default-branch",
+    title: "repositories with an unprotected default branch",
+    severity: "warning",
+    check: (repo, context) =>
+      context.branchProtection.get(repo.id)?.protected === false,
+    describe: (repo) =>
+      `Default branch: ${repo.default_branch} (not protected)`,
+  },
+  {
+    id: "force-push-allowed",
+    title: "repositories allowing force pushes to a protected default branch",
+    severity: "warning",
+    check: (repo, context) => {
+      const status = context.branchProtection.get(repo.id);
+      return (
+        status !== undefined && status.protected && status.allowsForcePushes
+      );
+    },
+    describe: (repo, context) =>
+      describeBranchProtection(context.branchProtection.get(repo.id)!),
+  },
+  {
+    id: "missing-community-files",
+    title: "repositories missing community files",
+    severity: "warning",
+    // Archived repositories are read-only, so files cannot be added
+    check: (repo, context) => {
+      const files = context.communityFiles.get(repo.id);
+      return (
+        !repo.archived &&
+        files !== undefined &&
+        missingCommunityFiles(files).length > 0
+      );
+    },
+    describe: (repo, context) =>
+      `Missing: ${describeCommunityFiles(
+        missingCommunityFiles(context.communityFiles.get(repo.id)!)
+      )}`,
+  },
+];
+
+const registeredRules: AnalysisRule[] = [...BUILT_IN_RULES];
+
+/**
+ * Add a rule to every subsequent analysis, replacing any rule with the same id
+ */
+export function registerAnalysisRule(rule: AnalysisRule): void {
+  const index = registeredRules.findIndex((r) => r.id === rule.id);
+  if (index === -1) {
+    registeredRules.push(rule);
+  } else {
+    registeredRules[index] = rule;
+  }
+}
+
+/**
+ * Rules used by analysis, built-in ones first
+ */
+export function getAnalysisRules(): AnalysisRule[] {
+  return [...registeredRules];
+}
+
+function isAnalysisRule(value: unknown): value is AnalysisRule {
+  const rule = value as AnalysisRule;
+  return (
+    typeof rule === "object" &&
+    rule !== null &&
+    typeof rule.id === "string" &&
+    typeof rule.title === "string" &&
+    ["error", "warning", "info"].includes(rule.severity) &&
+    typeof rule.check === "function"
+  );
+}
+
+/**
+ * Register the rules exported by a module (default export, `rules` export or module.exports array)
+ */
+export async function loadAnalysisRules(
+  modulePath: string
+): Promise<AnalysisRule[]> {
+  const loaded = await import(path.resolve(modulePath));
+  const exported = loaded.rules ?? loaded.default ?? loaded;
+  const rules: unknown[] = Array.isArray(exported) ? exported : [exported];
+
+  rules.forEach((rule, index) => {
+    if (!isAnalysisRule(rule)) {
+      throw new Error(
+        `Rule ${index} in ${modulePath} must have an id, title, severity (error, warning or info) and check function`
+      );
+    }
+    registerAnalysisRule(rule);
+  });
+
+  return rules as AnalysisRule[];
+}
+
+/**
+ * Run every rule over every repository
+ */
+export function runAnalysisRules(
+  repositories: GitHubRepository[],
+  rules: AnalysisRule[],
+  context: AnalysisContext
+): RuleResult[] {
+  return rules.map((rule) => ({
+    rule,
+    repositories: repositories.filter((repo) => rule.check(repo, context)),
+  }));
+}
+
+/**
+ * Repositories flagged by one rule
+ */
+export function getRuleRepositories(
+  analysis: RepositoryAnalysis,
+  ruleId: string
+): GitHubRepository[] {
+  return analysis.results.find((r) => r.rule.id === ruleId)?.repositories ?? [];
+}
+
+/**
+ * Repositories flagged by any rule, without duplicates
+ */
+export function getFlaggedRepositories(
+  analysis: RepositoryAnalysis
+): GitHubRepository[] {
+  const flagged = new Map<number, GitHubRepository>();
+  analysis.results.forEach((result) =>
+    result.repositories.forEach((repo) => flagged.set(repo.id, repo))
+  );
+  return [...flagged.values()];
+}
+
+/**
+ * Combine the auto-fixes of every rule into one update per repository
+ */
+export function collectAutoFixes(analysis: RepositoryAnalysis): Array<{
+  owner: string;
+  repo: string;
+  data: RepositoryUpdateData;
+  ruleIds: string[];
+}> {
+  const fixes = new Map<
+    number,
+    {
+      owner: string;
+      repo: string;
+      data: RepositoryUpdateData;
+      ruleIds: string[];
+    }
+  >();
+
+  analysis.results.forEach(({ rule, repositories }) => {
+    if (!rule.autoFix) return;
+
+    repositories.forEach((repo) => {
+      const data = rule.autoFix!(repo, analysis.context);
+      if (!data || Object.keys(data).length === 0) return;
+
+      const fix = fixes.get(repo.id) ?? {
+        owner: repo.owner.login,
+        repo: repo.name,
+        data: {},
+        ruleIds: [],
+      };
+      fix.data = { ...fix.data, ...data };
+      fix.ruleIds.push(rule.id);
+      fixes.set(repo.id, fix);
+    });
+  });
+
+  return [...fixes.values()];
+}
@@ -0,0 +1,260 @@
+import * as fs from "fs/promises";
+import { parse as parseYaml } from "yaml";
+import { BranchProtectionStatus, ProtectionProfile } from "./types.js";
+
+/**
+ * Built-in profiles for `protect`, from least to most strict
+ */
+export const PROTECTION_PROFILES: Record<string, ProtectionProfile> = {
+  basic: {
+    required_reviews: 0,
+    status_checks: [],
+    linear_history: false,
+  },
+  reviewed: {
+    required_reviews: 1,
+    dismiss_stale_reviews: true,
+    status_checks: [],
+    linear_history: false,
+  },
+  strict: {
+    required_reviews: 2,
+    dismiss_stale_reviews: true,
+    require_code_owner_reviews: true,
+    status_checks: [],
+    strict_status_checks: true,
+    linear_history: true,
+    enforce_admins: true,
+  },
+};
+
+export const DEFAULT_PROTECTION_PROFILE = "reviewed";
+
+/** GitHub accepts between 0 and 6 required approving reviews */
+const MAX_REQUIRED_REVIEWS = 6;
+
+/**
+ * Validate a required review count
+ */
+export function parseRequiredReviews(value: string | number): number {
+  const count = typeof value === "number" ? value : Number(value);
+  if (!Number.isInteger(count) || count < 0 || count > MAX_REQUIRED_REVIEWS) {
+    throw new Error(
+      `Required reviews must be a whole number from 0 to ${MAX_REQUIRED_REVIEWS}`
+    );
+  }
+  return count;
+}
+
+/**
+ * Validate a profile read from a file; omitted settings are off
+ */
+function parseProfile(value: unknown, location: string): ProtectionProfile {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`${location} must be an object`);
+  }
+
+  const raw = value as Record<string, unknown>;
+  const profile: ProtectionProfile = {
+    required_reviews: 0,
+    status_checks: [],
+    linear_history: false,
+  };
+
+  for (const [key, fieldValue] of Object.entries(raw)) {
+    switch (key) {
+      case "required_reviews":
+        try {
+          profile.required_reviews = parseRequiredReviews(fieldValue as number);
+        } catch (error) {
+          throw new Error(`${location}.${key}: ${(error as Error).message}`);
+        }
+        break;
+      case "status_checks":
+        if (
+          !Array.isArray(fieldValue) ||
+          fieldValue.some((check) => typeof check !== "string")
+        ) {
+          throw new Error(`${location}.${key} must be a list of check names`);
+        }
+        profile.status_checks = fieldValue as string[];
+        break;
+      case "linear_history":
+      case "dismiss_stale_reviews":
+      case "require_code_owner_reviews":
+      case "strict_status_checks":
+      case "enforce_admins":
+        if (typeof fieldValue !== "boolean") {
+          throw new Error(`${location}.${key} must be true or false`);
+        }
+        profile[key] = fieldValue;
+        break;
+      default:
+        throw new Error(`${location}.${key} is not a supported setting`);
+    }
+  }
+
+  return profile;
+}
+
+/**
+ * Resolve a built-in profile by name, or load one from a YAML/JSON file
+ */
+export async function loadProtectionProfile(
+  nameOrFile: string
+): Promise<ProtectionProfile> {
+  if (Object.hasOwn(PROTECTION_PROFILES, nameOrFile)) {
+    const builtIn = PROTECTION_PROFILES[nameOrFile];
+    return { ...builtIn, status_checks: [...builtIn.status_checks] };
+  }
+
+  const extension = nameOrFile.toLowerCase().split(".").pop();
+  if (!["yml", "yaml", "json"].includes(extension ?? "")) {
+    throw new Error(
+      `Unknown protection profile "${nameOrFile}" (use ${Object.keys(
+        PROTECTION_PROFILES
+      ).join(", ")} or a .yml/.json file)`
+    );
+  }
+
+  const content = await fs.readFile(nameOrFile, "utf8");
+  let raw: unknown;
+  try {
+    raw = extension === "json" ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse protection profile ${nameOrFile}: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+  return parseProfile(raw, nameOrFile);
+}
+
+/**
+ * Read the protection of a branch from GitHub's branch protection response
+ */
+export function parseBranchProtection(
+  branch: string,
+  data: {
+    required_pull_request_reviews?: {
+      required_approving_review_count?: number;
+    } | null;
+    required_status_checks?: { contexts?: string[] } | null;
+    required_linear_history?: { enabled?: boolean } | null;
+    allow_force_pushes?: { enabled?: boolean } | null;
+  }
+): BranchProtectionStatus {
+  return {
+    branch,
+    protected: true,
+    allowsForcePushes: data.allow_force_pushes?.enabled ?? false,
+    requiredReviews:
+      data.required_pull_request_reviews?.required_approving_review_count ?? 0,
+    statusChecks: data.required_status_checks?.contexts ?? [],
+    linearHistory: data.required_linear_history?.enabled ?? false,
+  };
+}
+
+/**
+ * Status of a branch without protection rules
+ */
+export function unprotectedBranch(branch: string): BranchProtectionStatus {
+  return {
+    branch,
+    protected: false,
+    allowsForcePushes: true,
+    requiredReviews: 0,
+    statusChecks: [],
+    linearHistory: false,
+  };
+}
+
+/**
+ * Whether a branch falls short of the audit: unprotected or open to force pushes
+ */
+export function needsProtection(status: BranchProtectionStatus): boolean {
+  return !status.protected || status.allowsForcePushes;
+}
+
+/**
+ * Short summary such as "main: protected, 1 review, checks: ci"
+ */
+export function describeBranchProtection(
+  status: BranchProtectionStatus
+): string {
+  if (!status.protected) {
+    return `${status.branch}: not protected`;
+  }
+
+  const parts = ["protected"];
+  if (status.requiredReviews > 0) {
+    parts.push(
+      `${status.requiredReviews} review${
+        status.requiredReviews === 1 ? "" : "s"
+      }`
+    );
+  }
+  if (status.statusChecks.length > 0) {
+    parts.push(`checks: ${status.statusChecks.join(", ")}`);
+  }
+  if (status.linearHistory) parts.push("linear history");
+  if (status.allowsForcePushes) parts.push("force pushes allowed");
+  return `${status.branch}: ${parts.join(", ")}`;
+}
+
+/**
+ * Summarize a profile for previews
+ */
+export function describeProtectionProfile(profile: ProtectionProfile): string {
+  const lines = [
+    `Required reviews: ${profile.required_reviews}${
+      profile.required_reviews > 0 && profile.dismiss_stale_reviews
+        ? " (stale reviews dismissed)"
+        : ""
+    }${profile.require_code_owner_reviews ? " + code owners" : ""}`,
+    `Status checks: ${
+      profile.status_checks.length > 0
+        ? `${profile.status_checks.join(", ")}${
+            profile.strict_status_checks ? " (branch must be up to date)" : ""
+          }`
+        : "(none)"
+    }`,
+    `Linear history: ${profile.linear_history ? "required" : "not required"}`,
+    `Include administrators: ${profile.enforce_admins ? "yes" : "no"}`,
+    "Force pushes and deletion: blocked",
+    // The endpoint replaces the whole rule rather than merging with it
+    "⚠️  Replaces any existing protection: push restrictions are removed and administrator enforcement is set as above",
+  ];
+  return lines.map((line) => `   ${line}`).join("\n");
+}
+
+/**
+ * Parameters for GitHub's update branch protection endpoint, which replaces
+ * the branch's whole protection rule
+ */
+export function toBranchProtectionParams(profile: ProtectionProfile) {
+  return {
+    required_status_checks:
+      profile.status_checks.length > 0
+        ? {
+            strict: profile.strict_status_checks ?? false,
+            contexts: profile.status_checks,
+          }
+        : null,
+    enforce_admins: profile.enforce_admins ?? false,
+    required_pull_request_reviews:
+      profile.required_reviews > 0
+        ? {
+            required_approving_review_count: profile.required_reviews,
+            dismiss_stale_reviews: profile.dismiss_stale_reviews ?? false,
+            require_code_owner_reviews:
+              profile.require_code_owner_reviews ?? false,
+          }
+        : null,
+    restrictions: null,
+    required_linear_history: profile.linear_history,
+    allow_force_pushes: false,
+    allow_deletions: false,
+  };
+}
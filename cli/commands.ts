@@ -0,0 +1,1162 @@
+import * as fs from "fs/promises";
+import { GitHubService } from "./github-service.js";
+import {
+  writeRepositoriesToFile,
+  writeDryRunToFile,
+  writeLifecycleReportToFile,
+  writeRepositoryMappingsToFile,
+  formatRepositoryMappings,
+  formatUpdateDiff,
+} from "./formatters.js";
+import {
+  findStaleRepositories,
+  describeActivity,
+  formatLastActivity,
+  buildLifecycleReport,
+  DEFAULT_STALE_MONTHS,
+} from "./lifecycle.js";
+import { analyzeRepositories } from "./edit-workflows.js";
+import { RepositoryJournal, buildUndoUpdates } from "./journal.js";
+import { ResponseCache } from "./response-cache.js";
+import { planCsvImport } from "./csv.js";
+import { applyRepositoryFilters } from "./filters.js";
+import { sortRepositories, apiSortFor, fetchLimitFor } from "./sorting.js";
+import { planTopicEdit, hasTopicEdit } from "./topics.js";
+import { fillTemplate } from "./repository-fields.js";
+import {
+  settingsFromOptions,
+  disablesMergeMethod,
+  validateMergeMethods,
+  loadSettingsBaseline,
+  createBaselineRule,
+} from "./repository-settings.js";
+import {
+  loadProtectionProfile,
+  describeProtectionProfile,
+  needsProtection,
+} from "./branch-protection.js";
+import {
+  planRenames,
+  planTransfers,
+  checkMoveTargets,
+  formatMovePlan,
+  buildRepositoryMappings,
+} from "./moves.js";
+import {
+  loadLabelSet,
+  formatSyncPlan,
+  countSyncDeletions,
+} from "./label-sync.js";
+import {
+  loadCommunityTemplates,
+  planScaffold,
+  formatScaffoldPlan,
+  DEFAULT_SCAFFOLD_MESSAGE,
+} from "./community-files.js";
+import {
+  SnapshotStore,
+  readSnapshot,
+  diffSnapshots,
+  formatSnapshotDiff,
+} from "./snapshots.js";
+import {
+  loadAnalysisRules,
+  registerAnalysisRule,
+  getRuleRepositories,
+  getFlaggedRepositories,
+  collectAutoFixes,
+} from "./analysis-rules.js";
+import {
+  loadManifest,
+  planManifest,
+  formatManifestPlan,
+  applyManifestPlan,
+} from "./manifest.js";
+import {
+  GitHubRepository,
+  RepositoryUpdateData,
+  CLIOptions,
+  ExitCode,
+  ExportCommandOptions,
+  AnalyzeCommandOptions,
+  EditCommandOptions,
+  BatchEditMode,
+  BatchEditCommandOptions,
+  UndoCommandOptions,
+  SnapshotCommandOptions,
+  DiffCommandOptions,
+  FormattedRepositoryData,
+  TopicEdit,
+  LifecycleAction,
+  StaleRepository,
+  MoveAction,
+  RepositoryMovePlan,
+  RenameCommandOptions,
+  TransferCommandOptions,
+  ProtectCommandOptions,
+  SyncCommandOptions,
+  ScaffoldCommandOptions,
+} from "./types.js";
+
+/**
+ * Error carrying the exit code a subcommand should terminate with
+ */
+export class CommandError extends Error {
+  constructor(message: string, public exitCode: ExitCode = ExitCode.Error) {
+    super(message);
+    this.name = "CommandError";
+  }
+}
+
+interface CommandContext {
+  githubService: GitHubService;
+  username: string;
+  isAuthenticated: boolean;
+  org?: string;
+  /** Organization when --org is given, otherwise the user */
+  owner: string;
+}
+
+/**
+ * Resolve token and username from flags or environment without prompting
+ */
+async function createCommandContext(
+  options: CLIOptions,
+  requireAuthentication = false
+): Promise<CommandContext> {
+  if (options.rules) {
+    await loadAnalysisRules(options.rules);
+  }
+  if (options.baseline) {
+    registerAnalysisRule(
+      createBaselineRule(await loadSettingsBaseline(options.baseline))
+    );
+  }
+
+  const token = options.token || process.env.GITHUB_ACCESS_TOKEN;
+  const githubService = new GitHubService(token, {
+    dryRun: options.dryRun || !!options.dryRunFile,
+    journal: new RepositoryJournal(options.journal),
+    concurrency: options.concurrency,
+    cache: new ResponseCache(options.cacheDir),
+    offline: options.offline,
+    refresh: options.refresh,
+  });
+  const authInfo = await githubService.getAuthenticationInfo(token);
+
+  if (requireAuthentication && !authInfo.isAuthenticated) {
+    throw new CommandError(
+      "A valid token with 'repo' scope is required (use --token or GITHUB_ACCESS_TOKEN)",
+      ExitCode.UsageError
+    );
+  }
+
+  const username = authInfo.isAuthenticated
+    ? authInfo.username
+    : options.user || "";
+
+  if (!options.org && (!username || username.trim() === "")) {
+    throw new CommandError(
+      "Username is required (use --user, --org or provide a token)",
+      ExitCode.UsageError
+    );
+  }
+
+  return {
+    githubService,
+    username,
+    isAuthenticated: authInfo.isAuthenticated,
+    org: options.org,
+    owner: options.org || username,
+  };
+}
+
+/**
+ * Fetch the context's repositories, apply the filter options and sort them
+ * by --sort
+ */
+async function fetchForContext(
+  context: CommandContext,
+  options: CLIOptions
+): Promise<GitHubRepository[]> {
+  const repos = await context.githubService.fetchRepositories(
+    context.username,
+    context.isAuthenticated,
+    {
+      ...apiSortFor(options.sort),
+      maxCount: fetchLimitFor(options.sort, options.limit),
+      org: context.org,
+    }
+  );
+  return sortRepositories(
+    applyRepositoryFilters(repos, options),
+    options.sort
+  ).slice(0, options.limit);
+}
+
+/**
+ * Pick repositories by name, failing on any name that was not fetched
+ */
+function selectRepositories(
+  repositories: GitHubRepository[],
+  names: string[]
+): GitHubRepository[] {
+  const unknown = names.filter(
+    (name) => !repositories.some((repo) => repo.name === name)
+  );
+
+  if (unknown.length > 0) {
+    throw new CommandError(
+      `Unknown repositories: ${unknown.join(", ")}`,
+      ExitCode.UsageError
+    );
+  }
+
+  return repositories.filter((repo) => names.includes(repo.name));
+}
+
+/**
+ * Write recorded dry-run updates when --dry-run-file is given
+ */
+async function saveDryRunResults(
+  context: CommandContext,
+  options: CLIOptions
+): Promise<void> {
+  if (context.githubService.isDryRun && options.dryRunFile) {
+    await writeDryRunToFile(
+      context.githubService.getDryRunEntries(),
+      options.dryRunFile
+    );
+  }
+}
+
+/**
+ * Report failed batch updates and map the results to an exit code
+ */
+function exitCodeForResults(
+  results: Array<{ success: boolean; repo: string; error?: string }>
+): ExitCode {
+  const failed = results.filter((r) => !r.success);
+
+  failed.forEach((r) => console.error(`❌ ${r.repo}: ${r.error}`));
+
+  if (failed.length === 0) {
+    return ExitCode.Success;
+  }
+  return failed.length === results.length
+    ? ExitCode.Error
+    : ExitCode.PartialFailure;
+}
+
+/**
+ * `export`: write repositories to a file
+ */
+export async function runExportCommand(
+  options: CLIOptions & ExportCommandOptions
+): Promise<ExitCode> {
+  if (!options.file) {
+    throw new CommandError(
+      "An output file is required (use --file)",
+      ExitCode.UsageError
+    );
+  }
+
+  const context = await createCommandContext(options);
+  const repos = await fetchForContext(context, options);
+  const health =
+    options.health || options.csvColumns?.includes("health")
+      ? await context.githubService.scoreHealth(repos)
+      : undefined;
+
+  await writeRepositoriesToFile(repos, context.owner, options.file, {
+    csv: { columns: options.csvColumns, delimiter: options.csvDelimiter },
+    health,
+  });
+  return ExitCode.Success;
+}
+
+/**
+ * `analyze`: report missing/broken metadata, optionally failing when found
+ */
+export async function runAnalyzeCommand(
+  options: CLIOptions & AnalyzeCommandOptions
+): Promise<ExitCode> {
+  const context = await createCommandContext(options);
+  const repos = await fetchForContext(context, options);
+
+  const analysis = await analyzeRepositories(
+    context.githubService,
+    repos,
+    context.owner,
+    {
+      reportFile: options.file,
+      interactive: false,
+      checkHomepages: options.checkHomepages ?? false,
+      checkProtection: options.checkProtection ?? false,
+      checkHealth: options.health ?? false,
+    }
+  );
+
+  const totalIssues = getFlaggedRepositories(analysis).length;
+
+  return options.failOnIssues && totalIssues > 0
+    ? ExitCode.IssuesFound
+    : ExitCode.Success;
+}
+
+/**
+ * `edit <repo>`: update a single repository from flags
+ */
+export async function runEditCommand(
+  repository: string,
+  options: CLIOptions & EditCommandOptions
+): Promise<ExitCode> {
+  const context = await createCommandContext(options, true);
+
+  const [owner, repo] = repository.includes("/")
+    ? repository.split("/", 2)
+    : [context.owner, repository];
+
+  const updateData: RepositoryUpdateData = {};
+
+  if (options.description !== undefined) {
+    updateData.description = options.description;
+  }
+  if (options.homepage !== undefined) {
+    updateData.homepage = options.homepage;
+  }
+  if (options.visibility !== undefined) {
+    updateData.private = options.visibility === "private";
+  }
+  Object.assign(updateData, settingsFromOptions(options));
+
+  const topicEdit: TopicEdit = {
+    replace: options.setTopics,
+    add: options.addTopics,
+    remove: options.removeTopics,
+  };
+
+  if (Object.keys(updateData).length === 0 && !hasTopicEdit(topicEdit)) {
+    throw new CommandError(
+      "No changes given (use --description, --homepage, --visibility, a setting such as --[no-]issues or --[no-]squash-merge, --default-branch or --set/add/remove-topics)",
+      ExitCode.UsageError
+    );
+  }
+
+  const current =
+    hasTopicEdit(topicEdit) || disablesMergeMethod(updateData)
+      ? await context.githubService.getRepository(owner, repo)
+      : undefined;
+
+  try {
+    validateMergeMethods(updateData, current);
+  } catch (error) {
+    throw new CommandError((error as Error).message, ExitCode.UsageError);
+  }
+
+  if (current && hasTopicEdit(topicEdit)) {
+    const topics = planTopicEdit(current, topicEdit);
+    if (topics !== undefined) {
+      updateData.topics = topics;
+    }
+  }
+
+  if (Object.keys(updateData).length === 0) {
+    console.log("✅ Nothing to update.");
+    return ExitCode.Success;
+  }
+
+  await context.githubService.updateRepository(owner, repo, updateData);
+  await saveDryRunResults(context, options);
+  return ExitCode.Success;
+}
+
+/**
+ * `batch-edit <mode>`: run one of the batch edit workflows from flags
+ */
+export async function runBatchEditCommand(
+  mode: BatchEditMode,
+  options: CLIOptions & BatchEditCommandOptions
+): Promise<ExitCode> {
+  const context = await createCommandContext(options, true);
+  const repos = await fetchForContext(context, options);
+  const selected = options.repos
+    ? selectRepositories(repos, options.repos)
+    : repos;
+
+  let lifecycle:
+    | { action: LifecycleAction; entries: StaleRepository[] }
+    | undefined;
+  let updates: Array<{
+    owner: string;
+    repo: string;
+    data: RepositoryUpdateData;
+  }>;
+  // Repositories that could not be planned, reported as failed results
+  const planFailures: Array<{ success: boolean; repo: string; error: string }> =
+    [];
+
+  switch (mode) {
+    case "add-description": {
+      if (!options.description) {
+        throw new CommandError(
+          "add-description requires --description <template>",
+          ExitCode.UsageError
+        );
+      }
+      const template = options.description;
+      const analysis =
+        await context.githubService.findRepositoriesNeedingUpdate(selected);
+      updates = getRuleRepositories(analysis, "missing-description").map(
+        (repo) => ({
+          owner: repo.owner.login,
+          repo: repo.name,
+          data: { description: fillTemplate(template, repo) },
+        })
+      );
+      break;
+    }
+
+    case "fix-homepage": {
+      if (options.homepage === undefined && !options.checkHomepages) {
+        throw new CommandError(
+          'fix-homepage requires --homepage <template> (use "" to remove) or --check-homepages',
+          ExitCode.UsageError
+        );
+      }
+      const template = options.homepage;
+      const analysis =
+        await context.githubService.findRepositoriesNeedingUpdate(selected, {
+          checkHomepages: options.checkHomepages,
+        });
+      updates = [];
+      getRuleRepositories(analysis, "broken-homepage").forEach((repo) => {
+        // Redirected homepages are fixed by pointing at the redirect target
+        const finalUrl = analysis.context.homepageChecks.get(repo.id)?.finalUrl;
+        const homepage =
+          finalUrl ??
+          (template !== undefined ? fillTemplate(template, repo) : undefined);
+
+        if (homepage !== undefined) {
+          updates.push({
+            owner: repo.owner.login,
+            repo: repo.name,
+            data: { homepage },
+          });
+        }
+      });
+      break;
+    }
+
+    case "update-privacy": {
+      if (!options.repos || !options.visibility) {
+        throw new CommandError(
+          "update-privacy requires --repos and --visibility",
+          ExitCode.UsageError
+        );
+      }
+      const makePrivate = options.visibility === "private";
+      updates = selected
+        .filter((repo) => repo.private !== makePrivate)
+        .map((repo) => ({
+          owner: repo.owner.login,
+          repo: repo.name,
+          data: { private: makePrivate },
+        }));
+      break;
+    }
+
+    case "custom-updates": {
+      if (!options.repos) {
+        throw new CommandError(
+          "custom-updates requires --repos",
+          ExitCode.UsageError
+        );
+      }
+      const settings = settingsFromOptions(options);
+      if (
+        options.description === undefined &&
+        options.homepage === undefined &&
+        Object.keys(settings).length === 0
+      ) {
+        throw new CommandError(
+          "custom-updates requires --description, --homepage or settings such as --[no-]discussions",
+          ExitCode.UsageError
+        );
+      }
+      try {
+        validateMergeMethods(settings);
+      } catch (error) {
+        throw new CommandError((error as Error).message, ExitCode.UsageError);
+      }
+      const { description, homepage } = options;
+      updates = selected.map((repo) => {
+        const data: RepositoryUpdateData = { ...settings };
+        if (description !== undefined) {
+          data.description = fillTemplate(description, repo);
+        }
+        if (homepage !== undefined) {
+          data.homepage = fillTemplate(homepage, repo);
+        }
+        return { owner: repo.owner.login, repo: repo.name, data };
+      });
+      break;
+    }
+
+    case "auto-fix": {
+      const analysis =
+        await context.githubService.findRepositoriesNeedingUpdate(selected, {
+          checkHomepages: options.checkHomepages,
+        });
+      updates = collectAutoFixes(analysis).map(({ owner, repo, data }) => ({
+        owner,
+        repo,
+        data,
+      }));
+      break;
+    }
+
+    case "topics": {
+      const edit: TopicEdit = {
+        replace: options.setTopics,
+        add: options.addTopics,
+        remove: options.removeTopics,
+      };
+      if (!hasTopicEdit(edit)) {
+        throw new CommandError(
+          "topics requires --set-topics, --add-topics and/or --remove-topics",
+          ExitCode.UsageError
+        );
+      }
+      updates = [];
+      selected.forEach((repo) => {
+        try {
+          const topics = planTopicEdit(repo, edit);
+          if (topics !== undefined) {
+            updates.push({
+              owner: repo.owner.login,
+              repo: repo.name,
+              data: { topics },
+            });
+          }
+        } catch (error) {
+          planFailures.push({
+            success: false,
+            repo: `${repo.owner.login}/${repo.name}`,
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      });
+      break;
+    }
+
+    case "archive-stale": {
+      if (
+        !options.repos &&
+        !hasRepositoryFilter(options) &&
+        !options.yes &&
+        !context.githubService.isDryRun
+      ) {
+        throw new CommandError(
+          "archive-stale requires --repos or a filter such as --filter to select repositories, or --yes to archive every stale repository",
+          ExitCode.UsageError
+        );
+      }
+      const months = options.months ?? DEFAULT_STALE_MONTHS;
+      const entries = findStaleRepositories(selected, months);
+      console.log(
+        `🕸️  ${entries.length} repositories with no push in ${months}+ months`
+      );
+      entries.forEach((entry) =>
+        console.log(
+          `  - ${entry.repo.name}: last push ${formatLastActivity(entry)}`
+        )
+      );
+      lifecycle = { action: "archive", entries };
+      updates = entries.map(({ repo }) => ({
+        owner: repo.owner.login,
+        repo: repo.name,
+        data: { archived: true },
+      }));
+      break;
+    }
+
+    case "unarchive": {
+      if (!options.repos) {
+        throw new CommandError(
+          "unarchive requires --repos",
+          ExitCode.UsageError
+        );
+      }
+      const entries = selected
+        .filter((repo) => repo.archived)
+        .map(describeActivity);
+      lifecycle = { action: "unarchive", entries };
+      updates = entries.map(({ repo }) => ({
+        owner: repo.owner.login,
+        repo: repo.name,
+        data: { archived: false },
+      }));
+      break;
+    }
+
+    default:
+      throw new CommandError(
+        `Unknown batch edit mode: ${mode}`,
+        ExitCode.UsageError
+      );
+  }
+
+  if (updates.length === 0) {
+    if (planFailures.length > 0) {
+      return exitCodeForResults(planFailures);
+    }
+    console.log("✅ Nothing to update.");
+    return ExitCode.Success;
+  }
+
+  const results = [
+    ...planFailures,
+    ...(await context.githubService.batchUpdateRepositories(updates)),
+  ];
+  await saveDryRunResults(context, options);
+
+  if (lifecycle && options.report) {
+    await writeLifecycleReportToFile(
+      buildLifecycleReport(lifecycle.action, lifecycle.entries, results),
+      options.report,
+      context.githubService.isDryRun
+    );
+  }
+  return exitCodeForResults(results);
+}
+
+/**
+ * Whether any of the global filters narrows the fetched repositories
+ */
+function hasRepositoryFilter(options: CLIOptions): boolean {
+  return Boolean(
+    options.filter ||
+      options.topic ||
+      options.license ||
+      options.archived ||
+      options.forks
+  );
+}
+
+/**
+ * Repositories chosen for a rename or transfer; these never default to every
+ * fetched repository
+ */
+function selectMoveCandidates(
+  repositories: GitHubRepository[],
+  options: CLIOptions & { repos?: string[] },
+  action: MoveAction
+): GitHubRepository[] {
+  if (!options.repos && !hasRepositoryFilter(options)) {
+    throw new CommandError(
+      `${action} requires --repos or a filter such as --filter to select repositories`,
+      ExitCode.UsageError
+    );
+  }
+  return options.repos
+    ? selectRepositories(repositories, options.repos)
+    : repositories;
+}
+
+/**
+ * Preview a rename/transfer plan, apply it and record the old → new mappings
+ */
+async function applyMovePlan(
+  context: CommandContext,
+  plan: RepositoryMovePlan,
+  options: CLIOptions & { mapping?: string },
+  apply: () => Promise<
+    Array<{ success: boolean; repo: string; error?: string }>
+  >
+): Promise<ExitCode> {
+  console.log(`\n${formatMovePlan(plan)}`);
+
+  if (plan.conflicts.length > 0) {
+    throw new CommandError(
+      `Resolve ${plan.conflicts.length} conflicts before running ${plan.action}`,
+      ExitCode.UsageError
+    );
+  }
+  if (plan.moves.length === 0) {
+    console.log("✅ Nothing to update.");
+    return ExitCode.Success;
+  }
+
+  const results = await apply();
+  await saveDryRunResults(context, options);
+
+  const mappings = buildRepositoryMappings(plan, results);
+  if (options.mapping) {
+    await writeRepositoryMappingsToFile(
+      mappings,
+      options.mapping,
+      context.githubService.isDryRun
+    );
+  } else if (!context.githubService.isDryRun) {
+    console.log(
+      `\n${formatRepositoryMappings(mappings.filter((m) => m.success))}`
+    );
+  }
+  return exitCodeForResults(results);
+}
+
+/**
+ * `rename --pattern <pattern>`: rename selected repositories with a pattern
+ */
+export async function runRenameCommand(
+  options: CLIOptions & RenameCommandOptions
+): Promise<ExitCode> {
+  const context = await createCommandContext(options, true);
+  const repos = await fetchForContext(context, options);
+  const selected = selectMoveCandidates(repos, options, "rename");
+
+  const plan = await checkMoveTargets(
+    planRenames(selected, repos, options.pattern),
+    (owner, name) => context.githubService.repositoryExists(owner, name)
+  );
+
+  return applyMovePlan(context, plan, options, () =>
+    context.githubService.batchUpdateRepositories(
+      plan.moves.map(({ repo, to }) => ({
+        owner: repo.owner.login,
+        repo: repo.name,
+        data: { name: to.split("/", 2)[1] },
+      }))
+    )
+  );
+}
+
+/**
+ * `transfer <new-owner>`: move selected repositories to another user or organization
+ */
+export async function runTransferCommand(
+  newOwner: string,
+  options: CLIOptions & TransferCommandOptions
+): Promise<ExitCode> {
+  const context = await createCommandContext(options, true);
+  const repos = await fetchForContext(context, options);
+  const selected = selectMoveCandidates(repos, options, "transfer");
+
+  const plan = await checkMoveTargets(
+    planTransfers(selected, newOwner),
+    (owner, name) => context.githubService.repositoryExists(owner, name)
+  );
+
+  return applyMovePlan(context, plan, options, () =>
+    context.githubService.batchTransferRepositories(
+      plan.moves.map(({ repo }) => ({
+        owner: repo.owner.login,
+        repo: repo.name,
+        newOwner,
+      }))
+    )
+  );
+}
+
+/**
+ * `protect`: apply a branch protection profile to default branches
+ */
+export async function runProtectCommand(
+  options: CLIOptions & ProtectCommandOptions
+): Promise<ExitCode> {
+  const profile = await loadProtectionProfile(options.profile);
+  if (options.requiredReviews !== undefined) {
+    profile.required_reviews = options.requiredReviews;
+  }
+  if (options.statusChecks !== undefined) {
+    profile.status_checks = options.statusChecks;
+  }
+  if (options.linearHistory !== undefined) {
+    profile.linear_history = options.linearHistory;
+  }
+
+  const context = await createCommandContext(options, true);
+  const repos = await fetchForContext(context, options);
+  let selected = (
+    options.repos ? selectRepositories(repos, options.repos) : repos
+  ).filter((repo) => !repo.archived);
+
+  if (options.onlyUnprotected) {
+    const checks = await context.githubService.checkBranchProtection(selected);
+    checks
+      .filter(({ error }) => error)
+      .forEach(({ repo, error }) =>
+        console.warn(`⚠️  Skipping ${repo.name}: ${error}`)
+      );
+    selected = checks
+      .filter(({ result }) => result && needsProtection(result))
+      .map(({ repo }) => repo);
+  }
+
+  if (selected.length === 0) {
+    console.log("✅ Nothing to update.");
+    return ExitCode.Success;
+  }
+
+  console.log(`\n🛡️  Protection profile "${options.profile}":`);
+  console.log(describeProtectionProfile(profile));
+  console.log(`\n📋 Default branches to protect:`);
+  selected.forEach((repo) =>
+    console.log(`   • ${repo.name} (${repo.default_branch})`)
+  );
+
+  const results = await context.githubService.batchProtectBranches(
+    selected,
+    profile
+  );
+  await saveDryRunResults(context, options);
+  return exitCodeForResults(results);
+}
+
+/**
+ * `sync <file>`: create, update and optionally delete labels and milestones
+ * so selected repositories match the file
+ */
+export async function runSyncCommand(
+  file: string,
+  options: CLIOptions & SyncCommandOptions
+): Promise<ExitCode> {
+  const labelSet = await loadLabelSet(file);
+  const context = await createCommandContext(options, true);
+  const repos = await fetchForContext(context, options);
+  const selected = options.repos
+    ? selectRepositories(repos, options.repos)
+    : repos;
+
+  const plans = await context.githubService.planLabelSync(
+    selected,
+    labelSet,
+    options.delete ?? false
+  );
+  console.log(`\n${formatSyncPlan(plans)}`);
+
+  // Deleting a label or milestone also strips it from every issue
+  const deletions = countSyncDeletions(plans);
+  if (deletions > 0 && !options.yes && !context.githubService.isDryRun) {
+    throw new CommandError(
+      `${deletions} labels or milestones would be deleted, which also removes them from issues and pull requests. Review the plan and rerun with --yes to apply it.`,
+      ExitCode.UsageError
+    );
+  }
+
+  const pending = plans.filter((plan) => plan.changes.length > 0);
+  const results =
+    pending.length > 0
+      ? await context.githubService.batchSyncLabels(pending)
+      : [];
+  await saveDryRunResults(context, options);
+  const unreadable = plans
+    .filter((plan) => plan.error)
+    .map(({ owner, repo, error }) => ({
+      success: false,
+      repo: `${owner}/${repo}`,
+      error,
+    }));
+  return exitCodeForResults([...results, ...unreadable]);
+}
+
+/**
+ * `scaffold <templates>`: commit community files that repositories lack from
+ * a directory of templates
+ */
+export async function runScaffoldCommand(
+  templateDir: string,
+  options: CLIOptions & ScaffoldCommandOptions
+): Promise<ExitCode> {
+  const templates = await loadCommunityTemplates(templateDir);
+  const context = await createCommandContext(options, true);
+  const repos = await fetchForContext(context, options);
+  // Archived repositories are read-only
+  const selected = (
+    options.repos ? selectRepositories(repos, options.repos) : repos
+  ).filter((repo) => !repo.archived);
+
+  const communityFiles = await context.githubService.auditCommunityFiles(
+    selected
+  );
+  const plan = planScaffold(selected, communityFiles, templates);
+  console.log(`\n${formatScaffoldPlan(plan)}`);
+
+  if (plan.length === 0) {
+    return ExitCode.Success;
+  }
+
+  const results = await context.githubService.batchCommitFiles(
+    plan,
+    options.message ?? DEFAULT_SCAFFOLD_MESSAGE
+  );
+  await saveDryRunResults(context, options);
+  return exitCodeForResults(results);
+}
+
+/**
+ * `plan <manifest>`: show how live repositories differ from the manifest
+ */
+export async function runPlanCommand(
+  manifestFile: string,
+  options: CLIOptions
+): Promise<ExitCode> {
+  const manifest = await loadManifest(manifestFile);
+  const context = await createCommandContext(options);
+  const repos = await fetchForContext(context, options);
+
+  const plan = planManifest(manifest, repos);
+  console.log(`\n${formatManifestPlan(plan)}`);
+
+  return ExitCode.Success;
+}
+
+/**
+ * `apply <manifest>`: push the manifest's planned changes to GitHub
+ */
+export async function runApplyCommand(
+  manifestFile: string,
+  options: CLIOptions
+): Promise<ExitCode> {
+  const manifest = await loadManifest(manifestFile);
+  const context = await createCommandContext(options, true);
+  const repos = await fetchForContext(context, options);
+
+  const plan = planManifest(manifest, repos);
+  console.log(`\n${formatManifestPlan(plan)}`);
+
+  const results = await applyManifestPlan(context.githubService, plan);
+  await saveDryRunResults(context, options);
+  return exitCodeForResults(results);
+}
+
+/**
+ * `undo [batch-id]`: restore the values recorded before a batch of updates
+ */
+export async function runUndoCommand(
+  batchId: string | undefined,
+  options: CLIOptions & UndoCommandOptions
+): Promise<ExitCode> {
+  const journal = new RepositoryJournal(options.journal);
+
+  if (options.list) {
+    const batches = await journal.listBatches();
+    if (batches.length === 0) {
+      console.log(`No updates recorded in ${journal.file}`);
+    }
+    const undoneBy = new Map(
+      batches
+        .filter((batch) => batch.undoes)
+        .map((batch) => [batch.undoes, batch.id])
+    );
+    batches.forEach((batch) => {
+      const note = batch.undoes
+        ? `  (undo of ${batch.undoes})`
+        : undoneBy.has(batch.id)
+        ? `  (undone by ${undoneBy.get(batch.id)})`
+        : "";
+      console.log(
+        `${batch.id}  ${batch.timestamp}  ${batch.entries.length} updates  ${[
+          ...new Set(batch.entries.map((e) => e.repo)),
+        ].join(", ")}${note}`
+      );
+    });
+    return ExitCode.Success;
+  }
+
+  const batch = await journal.getBatch(batchId);
+  if (!batch) {
+    throw new CommandError(
+      batchId
+        ? `Batch ${batchId} not found in ${journal.file}`
+        : `No updates left to undo in ${journal.file}`,
+      ExitCode.UsageError
+    );
+  }
+
+  const undo = await journal.findUndo(batch.id);
+  if (undo) {
+    throw new CommandError(
+      `Batch ${batch.id} was already undone by batch ${undo.id}`,
+      ExitCode.UsageError
+    );
+  }
+
+  const context = await createCommandContext(options, true);
+
+  console.log(
+    `\n↩️  Undoing batch ${batch.id} from ${batch.timestamp} (${batch.entries.length} updates)`
+  );
+
+  const results = await context.githubService.batchUpdateRepositories(
+    buildUndoUpdates(batch),
+    { undoes: batch.id }
+  );
+  await saveDryRunResults(context, options);
+  return exitCodeForResults(results);
+}
+
+/**
+ * `import-csv <file>`: apply the rows of an edited CSV export that differ from GitHub
+ */
+export async function runImportCsvCommand(
+  csvFile: string,
+  options: CLIOptions
+): Promise<ExitCode> {
+  const content = await fs.readFile(csvFile, "utf8");
+  const context = await createCommandContext(options, true);
+  const repos = await fetchForContext(context, options);
+
+  const plan = planCsvImport(content, repos, options.csvDelimiter);
+
+  if (plan.unknown.length > 0) {
+    console.warn(
+      `⚠️  ${
+        plan.unknown.length
+      } rows match no repository and were skipped: ${plan.unknown.join(", ")}`
+    );
+  }
+
+  if (plan.updates.length === 0) {
+    console.log("✅ No changes. Repositories match the CSV.");
+    return ExitCode.Success;
+  }
+
+  console.log(`\n📋 Changes from ${csvFile}:\n`);
+  plan.updates.forEach(({ owner, repo, before, data }) =>
+    console.log(
+      formatUpdateDiff({ repo: `${owner}/${repo}`, before, after: data })
+    )
+  );
+
+  const results = await context.githubService.batchUpdateRepositories(
+    plan.updates.map(({ owner, repo, data }) => ({ owner, repo, data }))
+  );
+  await saveDryRunResults(context, options);
+  return exitCodeForResults(results);
+}
+
+/**
+ * `snapshot`: save the current repositories to the snapshot store
+ */
+export async function runSnapshotCommand(
+  options: CLIOptions & SnapshotCommandOptions
+): Promise<ExitCode> {
+  const store = new SnapshotStore(options.snapshotDir);
+
+  if (options.list) {
+    const owner = options.org || options.user;
+    const owners = owner ? [owner] : await store.listOwners();
+    let count = 0;
+
+    for (const o of owners) {
+      for (const snapshot of await store.list(o)) {
+        console.log(`${snapshot.owner}  ${snapshot.id}  ${snapshot.file}`);
+        count++;
+      }
+    }
+    if (count === 0) {
+      console.log(`No snapshots saved in ${store.dir}`);
+    }
+    return ExitCode.Success;
+  }
+
+  // Diffs compare whole snapshots, so filters and --limit are not applied
+  if (hasRepositoryFilter(options) || options.limit !== undefined) {
+    console.log(
+      "💡 Snapshots always include every repository; filters and --limit are ignored"
+    );
+  }
+
+  const context = await createCommandContext(options);
+  const repos = await context.githubService.fetchRepositories(
+    context.username,
+    context.isAuthenticated,
+    { org: context.org }
+  );
+  const snapshot = await store.save(repos, context.owner);
+
+  console.log(
+    `📸 Saved snapshot ${snapshot.id} of ${repos.length} repositories to ${snapshot.file}`
+  );
+  return ExitCode.Success;
+}
+
+/**
+ * Owner whose snapshots a diff compares: --org/--user, or the only owner stored
+ */
+async function resolveSnapshotOwner(
+  store: SnapshotStore,
+  options: CLIOptions
+): Promise<string> {
+  const owner = options.org || options.user;
+  if (owner) return owner;
+
+  const owners = await store.listOwners();
+  if (owners.length === 1) return owners[0];
+
+  throw new CommandError(
+    owners.length === 0
+      ? `No snapshots saved in ${store.dir} (run: github-cli snapshot)`
+      : `Snapshots exist for ${owners.join(
+          ", "
+        )}; choose one with --user or --org`,
+    ExitCode.UsageError
+  );
+}
+
+/**
+ * Load a snapshot given as a JSON export path or a reference into the store
+ */
+async function loadSnapshotRef(
+  store: SnapshotStore,
+  ref: string,
+  options: CLIOptions
+): Promise<{ label: string; data: FormattedRepositoryData }> {
+  if (ref.endsWith(".json")) {
+    return { label: ref, data: await readSnapshot(ref) };
+  }
+
+  const owner = await resolveSnapshotOwner(store, options);
+  const snapshot = await store.find(owner, ref);
+  if (!snapshot) {
+    throw new CommandError(
+      `Snapshot "${ref}" not found for ${owner} in ${store.dir}`,
+      ExitCode.UsageError
+    );
+  }
+
+  return {
+    label: `${snapshot.owner}@${snapshot.timestamp}`,
+    data: await readSnapshot(snapshot.file),
+  };
+}
+
+/**
+ * `diff [from] [to]`: compare two snapshots or JSON exports
+ */
+export async function runDiffCommand(
+  from: string,
+  to: string,
+  options: CLIOptions & DiffCommandOptions
+): Promise<ExitCode> {
+  const store = new SnapshotStore(options.snapshotDir);
+  const diff = diffSnapshots(
+    await loadSnapshotRef(store, from, options),
+    await loadSnapshotRef(store, to, options)
+  );
+
+  const content =
+    options.format === "json"
+      ? JSON.stringify(diff, null, 2)
+      : formatSnapshotDiff(diff);
+
+  if (options.file) {
+    await fs.writeFile(options.file, content, "utf8");
+    console.log(`✅ Diff saved to ${options.file}`);
+  } else {
+    console.log(content);
+  }
+  return ExitCode.Success;
+}
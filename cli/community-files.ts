@@ -0,0 +1,207 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  GitHubRepository,
+  CommunityFileKind,
+  CommunityFiles,
+  CommunityFileTemplate,
+  ScaffoldPlanEntry,
+} from "./types.js";
+import { fillTemplate } from "./repository-fields.js";
+
+/**
+ * Standard community files and how their names are recognized
+ */
+export const COMMUNITY_FILES: Array<{
+  kind: CommunityFileKind;
+  label: string;
+  pattern: RegExp;
+}> = [
+  { kind: "readme", label: "README", pattern: /^readme(\.|$)/i },
+  {
+    kind: "license",
+    label: "LICENSE",
+    pattern: /^(license|licence|copying)(\.|$)/i,
+  },
+  {
+    kind: "contributing",
+    label: "CONTRIBUTING",
+    pattern: /^contributing(\.|$)/i,
+  },
+  {
+    kind: "code_of_conduct",
+    label: "CODE_OF_CONDUCT",
+    pattern: /^code[_-]of[_-]conduct(\.|$)/i,
+  },
+  { kind: "security", label: "SECURITY", pattern: /^security(\.|$)/i },
+];
+
+export const DEFAULT_SCAFFOLD_MESSAGE = "Add {file}";
+
+/**
+ * Which community file a file name is, if any
+ */
+export function communityFileKind(name: string): CommunityFileKind | undefined {
+  return COMMUNITY_FILES.find(({ pattern }) => pattern.test(name))?.kind;
+}
+
+/**
+ * Which community files a directory listing contains, ignoring directories
+ * and other entries that are not files. GitHub also reads these files from
+ * .github/ and docs/, so pass those listings too.
+ */
+export function findCommunityFiles(
+  listing: Array<{ name: string; type: string }>
+): CommunityFiles {
+  const files = emptyCommunityFiles();
+  listing.forEach(({ name, type }) => {
+    const kind = type === "file" ? communityFileKind(name) : undefined;
+    if (kind) files[kind] = true;
+  });
+  return files;
+}
+
+export function emptyCommunityFiles(): CommunityFiles {
+  return {
+    readme: false,
+    license: false,
+    contributing: false,
+    code_of_conduct: false,
+    security: false,
+  };
+}
+
+/**
+ * Files reported by GitHub's community profile endpoint, which knows every
+ * file but SECURITY
+ */
+export function parseCommunityProfile(files: {
+  readme?: unknown;
+  license?: unknown;
+  contributing?: unknown;
+  code_of_conduct?: unknown;
+  code_of_conduct_file?: unknown;
+}): CommunityFiles {
+  return {
+    readme: !!files.readme,
+    license: !!files.license,
+    contributing: !!files.contributing,
+    code_of_conduct: !!files.code_of_conduct_file || !!files.code_of_conduct,
+    security: false,
+  };
+}
+
+/**
+ * Community files a repository lacks, in COMMUNITY_FILES order
+ */
+export function missingCommunityFiles(
+  files: CommunityFiles
+): CommunityFileKind[] {
+  return COMMUNITY_FILES.filter(({ kind }) => !files[kind]).map(
+    ({ kind }) => kind
+  );
+}
+
+export function describeCommunityFiles(kinds: CommunityFileKind[]): string {
+  return kinds
+    .map((kind) => COMMUNITY_FILES.find((file) => file.kind === kind)!.label)
+    .join(", ");
+}
+
+/**
+ * How many checked repositories have each community file
+ */
+export function summarizeCommunityFiles(
+  communityFiles: Map<number, CommunityFiles>
+): Array<{ label: string; count: number }> {
+  const checked = [...communityFiles.values()];
+  return COMMUNITY_FILES.map(({ kind, label }) => ({
+    label,
+    count: checked.filter((files) => files[kind]).length,
+  }));
+}
+
+/**
+ * Read community file templates from a directory; files are recognized by
+ * name (README.md, LICENSE, CODE_OF_CONDUCT.md, ...) and others are ignored
+ */
+export async function loadCommunityTemplates(
+  directory: string
+): Promise<CommunityFileTemplate[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  const templates: CommunityFileTemplate[] = [];
+
+  for (const entry of entries) {
+    if (!entry.isFile()) continue;
+    const kind = communityFileKind(entry.name);
+    if (!kind) continue;
+
+    const duplicate = templates.find((template) => template.kind === kind);
+    if (duplicate) {
+      throw new Error(
+        `${directory} has two ${describeCommunityFiles([kind])} templates: ${
+          duplicate.path
+        } and ${entry.name}`
+      );
+    }
+    templates.push({
+      kind,
+      path: entry.name,
+      content: await fs.readFile(path.join(directory, entry.name), "utf8"),
+    });
+  }
+
+  if (templates.length === 0) {
+    throw new Error(
+      `No community file templates in ${directory} (expected files such as ${COMMUNITY_FILES.map(
+        ({ label }) => label
+      ).join(", ")})`
+    );
+  }
+  return templates;
+}
+
+/**
+ * Filled-in templates for the files each repository lacks; repositories whose
+ * files could not be checked are left out
+ */
+export function planScaffold(
+  repositories: GitHubRepository[],
+  communityFiles: Map<number, CommunityFiles>,
+  templates: CommunityFileTemplate[]
+): ScaffoldPlanEntry[] {
+  return repositories
+    .map((repo) => {
+      const files = communityFiles.get(repo.id);
+      return {
+        repo,
+        files: files
+          ? templates
+              .filter(({ kind }) => !files[kind])
+              .map((template) => ({
+                ...template,
+                content: fillTemplate(template.content, repo),
+              }))
+          : [],
+      };
+    })
+    .filter(({ files }) => files.length > 0);
+}
+
+/**
+ * Format a scaffold plan as a preview
+ */
+export function formatScaffoldPlan(plan: ScaffoldPlanEntry[]): string {
+  if (plan.length === 0) {
+    return "✅ Every repository already has the templated files.\n";
+  }
+
+  const total = plan.reduce((sum, { files }) => sum + files.length, 0);
+  let content = `📋 ${total} files to add to ${plan.length} repositories:\n`;
+  plan.forEach(({ repo, files }) => {
+    content += `   • ${repo.name}: ${files
+      .map((file) => file.path)
+      .join(", ")}\n`;
+  });
+  return content;
+}
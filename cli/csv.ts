@@ -0,0 +1,305 @@
+import {
+  GitHubRepository,
+  RepositoryUpdateData,
+  CsvColumn,
+  CsvOptions,
+  CsvImportPlan,
+  HealthScore,
+} from "./types.js";
+import { getLicense, getVisibility, getTopics } from "./repository-fields.js";
+
+/**
+ * Columns available to CSV exports, in default order
+ */
+export const CSV_COLUMNS: Record<
+  CsvColumn,
+  {
+    header: string;
+    value: (repo: GitHubRepository, health?: HealthScore) => string;
+  }
+> = {
+  name: { header: "Name", value: (repo) => repo.name },
+  description: {
+    header: "Description",
+    value: (repo) => repo.description || "",
+  },
+  stars: { header: "Stars", value: (repo) => String(repo.stargazers_count) },
+  forks: { header: "Forks", value: (repo) => String(repo.forks_count) },
+  language: { header: "Language", value: (repo) => repo.language || "" },
+  private: {
+    header: "Private",
+    value: (repo) => (repo.private ? "true" : "false"),
+  },
+  homepage: { header: "Homepage", value: (repo) => repo.homepage || "" },
+  url: { header: "Repository URL", value: (repo) => repo.html_url },
+  topics: { header: "Topics", value: (repo) => getTopics(repo).join(" ") },
+  license: { header: "License", value: (repo) => getLicense(repo) || "" },
+  default_branch: {
+    header: "Default Branch",
+    value: (repo) => repo.default_branch,
+  },
+  archived: { header: "Archived", value: (repo) => String(repo.archived) },
+  disabled: { header: "Disabled", value: (repo) => String(repo.disabled) },
+  fork: { header: "Fork", value: (repo) => String(repo.fork) },
+  is_template: {
+    header: "Template",
+    value: (repo) => String(repo.is_template ?? false),
+  },
+  open_issues: {
+    header: "Open Issues",
+    value: (repo) => String(repo.open_issues_count),
+  },
+  size: { header: "Size (KB)", value: (repo) => String(repo.size) },
+  visibility: { header: "Visibility", value: (repo) => getVisibility(repo) },
+  watchers: {
+    header: "Watchers",
+    value: (repo) => String(repo.watchers_count),
+  },
+  created_at: { header: "Created At", value: (repo) => repo.created_at },
+  updated_at: { header: "Updated At", value: (repo) => repo.updated_at },
+  pushed_at: { header: "Last Push", value: (repo) => repo.pushed_at },
+  health: {
+    header: "Health Score",
+    value: (_repo, health) => (health ? String(health.score) : ""),
+  },
+};
+
+/**
+ * Columns written when --csv-columns is not given; the health score is added
+ * when health was scored
+ */
+export const DEFAULT_CSV_COLUMNS = (
+  Object.keys(CSV_COLUMNS) as CsvColumn[]
+).filter((column) => column !== "health");
+
+/**
+ * Columns read back by CSV import; any subset may be present besides name
+ */
+const IMPORT_COLUMNS = ["name", "description", "homepage", "private"] as const;
+
+/**
+ * Resolve a user-supplied delimiter, accepting "tab" and "\t" for tabs
+ */
+export function parseDelimiter(value: string): string {
+  if (value === "tab" || value === "\\t") return "\t";
+  if (value.length !== 1 || value === '"' || value === "\r" || value === "\n") {
+    throw new Error(
+      `Invalid CSV delimiter "${value}": use a single character other than a quote or newline`
+    );
+  }
+  return value;
+}
+
+/**
+ * Validate column names against CSV_COLUMNS
+ */
+export function parseCsvColumns(names: string[]): CsvColumn[] {
+  const unknown = names.filter((name) => !Object.hasOwn(CSV_COLUMNS, name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown CSV columns: ${unknown.join(", ")} (available: ${Object.keys(
+        CSV_COLUMNS
+      ).join(", ")})`
+    );
+  }
+  return names as CsvColumn[];
+}
+
+/**
+ * Quote a field when it contains the delimiter, a quote or a line break (RFC 4180)
+ */
+export function escapeCsvField(value: string, delimiter = ","): string {
+  if (
+    value.includes(delimiter) ||
+    value.includes('"') ||
+    value.includes("\n") ||
+    value.includes("\r")
+  ) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Serialize rows as CSV with CRLF line endings
+ */
+export function toCsv(rows: string[][], delimiter = ","): string {
+  return rows
+    .map((row) =>
+      row.map((field) => escapeCsvField(field, delimiter)).join(delimiter)
+    )
+    .join("\r\n")
+    .concat("\r\n");
+}
+
+/**
+ * Parse RFC 4180 CSV, including quoted fields with delimiters, quotes and line breaks
+ */
+export function parseCsv(content: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let i = 0;
+
+  // Strip a UTF-8 byte order mark written by some spreadsheet apps
+  if (content.charCodeAt(0) === 0xfeff) i = 1;
+
+  for (; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Malformed CSV: unterminated quoted field");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => !(r.length === 1 && r[0] === ""));
+}
+
+/**
+ * Format repositories as CSV with the chosen columns and delimiter
+ */
+export function repositoriesToCsv(
+  repos: GitHubRepository[],
+  options: CsvOptions = {},
+  health?: Map<number, HealthScore>
+): string {
+  const columns =
+    options.columns ??
+    (health
+      ? [...DEFAULT_CSV_COLUMNS, "health" as const]
+      : DEFAULT_CSV_COLUMNS);
+  const delimiter = options.delimiter ?? ",";
+
+  return toCsv(
+    [
+      columns.map((column) => CSV_COLUMNS[column].header),
+      ...repos.map((repo) =>
+        columns.map((column) =>
+          CSV_COLUMNS[column].value(repo, health?.get(repo.id))
+        )
+      ),
+    ],
+    delimiter
+  );
+}
+
+function parseBoolean(value: string, location: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  if (["true", "yes", "1"].includes(normalized)) return true;
+  if (["false", "no", "0"].includes(normalized)) return false;
+  throw new Error(`${location}: expected true or false, got "${value}"`);
+}
+
+/**
+ * Turn an edited CSV into the updates for rows that differ from live repositories
+ */
+export function planCsvImport(
+  content: string,
+  repositories: GitHubRepository[],
+  delimiter = ","
+): CsvImportPlan {
+  // Older exports start with "# ..." comment lines before the header
+  const rows = parseCsv(
+    content.replace(/^(#[^\n]*\r?\n|\s*\r?\n)+/, ""),
+    delimiter
+  );
+
+  if (rows.length === 0) {
+    throw new Error("CSV file is empty");
+  }
+
+  // Match columns by key or export header, case-insensitively
+  const header = rows[0].map((h) => h.trim().toLowerCase());
+  const columnIndex = new Map<string, number>();
+  IMPORT_COLUMNS.forEach((column) => {
+    const index = header.findIndex(
+      (h) => h === column || h === CSV_COLUMNS[column].header.toLowerCase()
+    );
+    if (index !== -1) columnIndex.set(column, index);
+  });
+
+  if (!columnIndex.has("name")) {
+    throw new Error('CSV file must have a "Name" column');
+  }
+
+  const updates: CsvImportPlan["updates"] = [];
+  const unknown: string[] = [];
+
+  rows.slice(1).forEach((row, rowIndex) => {
+    const cell = (column: string) => {
+      const index = columnIndex.get(column);
+      return index === undefined ? undefined : row[index] ?? "";
+    };
+    const name = cell("name")!.trim();
+    if (name === "") return;
+
+    const repo = repositories.find((r) => r.name === name);
+    if (!repo) {
+      unknown.push(name);
+      return;
+    }
+
+    const before: RepositoryUpdateData = {};
+    const after: RepositoryUpdateData = {};
+
+    for (const field of ["description", "homepage"] as const) {
+      const value = cell(field);
+      if (value !== undefined && value !== (repo[field] || "")) {
+        before[field] = repo[field] || "";
+        after[field] = value;
+      }
+    }
+
+    const privateCell = cell("private");
+    if (privateCell !== undefined && privateCell.trim() !== "") {
+      const value = parseBoolean(privateCell, `Row ${rowIndex + 2} Private`);
+      if (value !== repo.private) {
+        before.private = repo.private;
+        after.private = value;
+      }
+    }
+
+    if (Object.keys(after).length > 0) {
+      updates.push({
+        owner: repo.owner.login,
+        repo: repo.name,
+        before,
+        data: after,
+      });
+    }
+  });
+
+  return { updates, unknown };
+}
@@ -0,0 +1,202 @@
+import {
+  GitHubRepository,
+  DescriptionSource,
+  DescriptionSuggestion,
+} from "./types.js";
+import { getTopics } from "./repository-fields.js";
+
+/** GitHub rejects descriptions longer than this */
+export const MAX_DESCRIPTION_LENGTH = 350;
+
+/**
+ * Strip Markdown and inline HTML from a line of prose
+ */
+function plainText(markdown: string): string {
+  return (
+    markdown
+      // Images, including badges
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+      .replace(/!\[[^\]]*\]\[[^\]]*\]/g, "")
+      // Links keep their text
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]*)\]\[[^\]]*\]/g, "$1")
+      .replace(/<(https?:\/\/[^>]+)>/g, "$1")
+      .replace(/<[^>]+>/g, "")
+      .replace(/\*\*(.+?)\*\*|\*(.+?)\*/g, "$1$2")
+      // Underscores inside words, as in snake_case, are not emphasis
+      .replace(/(^|\W)__?(.+?)__?(?=\W|$)/g, "$1$2")
+      .replace(/`([^`]*)`/g, "$1")
+      .replace(/\s+/g, " ")
+      .trim()
+  );
+}
+
+/**
+ * Lines that cannot start or continue a prose paragraph: headings, setext
+ * underlines, rules, HTML blocks, tables, list items and link definitions
+ */
+function isStructure(line: string): boolean {
+  return (
+    /^#{1,6}(\s|$)/.test(line) ||
+    /^(=+|-+|\*{3,}|_{3,})$/.test(line) ||
+    line.startsWith("<") ||
+    line.startsWith("|") ||
+    /^([-*+]|\d+[.)])\s/.test(line) ||
+    /^\[[^\]]+\]:\s/.test(line)
+  );
+}
+
+/**
+ * Keep whole sentences up to the description limit, cutting the first
+ * sentence at a word if it is longer on its own
+ */
+export function shortenDescription(
+  text: string,
+  maxLength = MAX_DESCRIPTION_LENGTH
+): string {
+  if (text.length <= maxLength) return text;
+
+  const sentences = text.match(/[^.!?]+[.!?]+(\s|$)|[^.!?]+$/g) ?? [text];
+  let shortened = "";
+  for (const sentence of sentences) {
+    if ((shortened + sentence).trim().length > maxLength) break;
+    shortened += sentence;
+  }
+  if (shortened.trim()) return shortened.trim();
+
+  const cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+/**
+ * The first prose paragraph of a README, skipping titles, badges, HTML,
+ * code blocks and lists
+ */
+export function readmeDescription(readme: string): string | undefined {
+  const lines = readme.replace(/<!--[\s\S]*?-->/g, "").split(/\r?\n/);
+  let paragraph: string[] = [];
+  let inCode = false;
+
+  for (const raw of lines) {
+    const line = raw.trim().replace(/^>\s?/, "");
+
+    if (/^(```|~~~)/.test(line)) {
+      inCode = !inCode;
+    }
+    const ends =
+      inCode || /^(```|~~~)/.test(line) || !line || isStructure(line);
+
+    if (ends) {
+      // A paragraph underlined with = or - is a setext heading
+      if (/^(=+|-+)$/.test(line)) paragraph = [];
+      const text = plainText(paragraph.join(" "));
+      if (text) return shortenDescription(text);
+      paragraph = [];
+    } else {
+      paragraph.push(line);
+    }
+  }
+
+  const text = plainText(paragraph.join(" "));
+  return text ? shortenDescription(text) : undefined;
+}
+
+/**
+ * The description field of a package.json
+ */
+export function packageJsonDescription(content: string): string | undefined {
+  try {
+    const { description } = JSON.parse(content);
+    return typeof description === "string" && description.trim()
+      ? shortenDescription(description.trim())
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The description of a pyproject.toml's [project] or [tool.poetry] table;
+ * only single-line strings are read
+ */
+export function pyprojectDescription(content: string): string | undefined {
+  let table = "";
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    const header = line.match(/^\[([^\]]+)\]/);
+    if (header) {
+      table = header[1].trim();
+      continue;
+    }
+    if (table !== "project" && table !== "tool.poetry") continue;
+
+    const match = line.match(/^description\s*=\s*("(?:[^"\\]|\\.)*"|'[^']*')/);
+    if (!match) continue;
+    const value = match[1].startsWith('"')
+      ? JSON.parse(match[1])
+      : match[1].slice(1, -1);
+    if (value.trim()) return shortenDescription(value.trim());
+  }
+  return undefined;
+}
+
+/**
+ * A plain description from the primary language and topics, e.g.
+ * "A TypeScript project about cli, github-api"
+ */
+export function languageDescription(
+  repo: GitHubRepository
+): string | undefined {
+  const topics = getTopics(repo).join(", ");
+  if (!repo.language && !topics) return undefined;
+
+  return shortenDescription(
+    `A ${repo.language ? `${repo.language} ` : ""}project${
+      topics ? ` about ${topics}` : ""
+    }`
+  );
+}
+
+/**
+ * Files descriptions are read from, in order of preference; a missing path
+ * stands for the README wherever GitHub finds it
+ */
+export const DESCRIPTION_FILES: Array<{
+  source: DescriptionSource;
+  path?: string;
+  parse: (content: string) => string | undefined;
+}> = [
+  { source: "README", parse: readmeDescription },
+  {
+    source: "package.json",
+    path: "package.json",
+    parse: packageJsonDescription,
+  },
+  {
+    source: "pyproject.toml",
+    path: "pyproject.toml",
+    parse: pyprojectDescription,
+  },
+];
+
+/**
+ * Suggest a description from the first file that has one, falling back to
+ * the language and topics. Files are only read until a suggestion is found.
+ */
+export async function suggestDescription(
+  repo: GitHubRepository,
+  readFile: (path?: string) => Promise<string | undefined>
+): Promise<DescriptionSuggestion | undefined> {
+  for (const { source, path, parse } of DESCRIPTION_FILES) {
+    const content = await readFile(path);
+    const description = content !== undefined ? parse(content) : undefined;
+    if (description) return { repo, description, source };
+  }
+
+  const description = languageDescription(repo);
+  return description
+    ? { repo, description, source: "language and topics" }
+    : undefined;
+}
@@ -1,7 +1,122 @@
 import { text, select, multiselect, confirm } from "@clack/prompts";
-import { GitHubRepository, RepositoryUpdateData } from "./types.js";
+import {
+  GitHubRepository,
+  RepositoryUpdateData,
+  RepositoryAnalysis,
+  RepositoryQuery,
+  LifecycleAction,
+  StaleRepository,
+  MoveAction,
+  RepositoryMovePlan,
+  ProtectionProfile,
+  BooleanRepositorySetting,
+  LabelSet,
+  CommunityFileTemplate,
+} from "./types.js";
 import { GitHubService } from "./github-service.js";
-import { writeAnalysisToFile } from "./formatters.js";
+import * as fs from "fs/promises";
+import {
+  writeAnalysisToFile,
+  writeLifecycleReportToFile,
+  writeRepositoryMappingsToFile,
+  formatFieldValue,
+  formatUpdateDiff,
+} from "./formatters.js";
+import {
+  findStaleRepositories,
+  describeActivity,
+  formatLastActivity,
+  buildLifecycleReport,
+  DEFAULT_STALE_MONTHS,
+} from "./lifecycle.js";
+import {
+  planRenames,
+  planTransfers,
+  checkMoveTargets,
+  formatMovePlan,
+  buildRepositoryMappings,
+  RENAME_PATTERN_EXAMPLE,
+} from "./moves.js";
+import {
+  PROTECTION_PROFILES,
+  DEFAULT_PROTECTION_PROFILE,
+  loadProtectionProfile,
+  describeProtectionProfile,
+  describeBranchProtection,
+  needsProtection,
+} from "./branch-protection.js";
+import {
+  BOOLEAN_SETTINGS,
+  validateMergeMethods,
+} from "./repository-settings.js";
+import {
+  loadLabelSet,
+  formatSyncPlan,
+  describeLabelSet,
+  countSyncDeletions,
+} from "./label-sync.js";
+import {
+  loadCommunityTemplates,
+  planScaffold,
+  formatScaffoldPlan,
+  missingCommunityFiles,
+  describeCommunityFiles,
+  DEFAULT_SCAFFOLD_MESSAGE,
+} from "./community-files.js";
+import { planCsvImport, parseDelimiter } from "./csv.js";
+import { parseTopicList, planTopicEdit } from "./topics.js";
+import {
+  parseFilterExpression,
+  matchesQuery,
+  FILTER_EXAMPLE,
+} from "./filters.js";
+import { getTopics, fillTemplate } from "./repository-fields.js";
+import { MAX_DESCRIPTION_LENGTH } from "./description-suggestions.js";
+import { getFlaggedRepositories, collectAutoFixes } from "./analysis-rules.js";
+import {
+  isMalformedHomepage,
+  isHomepageProblem,
+  describeHomepageCheck,
+} from "./homepage-check.js";
+
+/**
+ * Ask for an optional filter expression, re-prompting until it parses
+ */
+export async function promptForFilter(
+  message = "Filter repositories (leave empty for all):"
+): Promise<RepositoryQuery | undefined> {
+  const expression = (await text({
+    message,
+    placeholder: FILTER_EXAMPLE,
+    validate: (value) => {
+      try {
+        parseFilterExpression(value ?? "");
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+    },
+  })) as string;
+
+  return expression && expression.trim() !== ""
+    ? parseFilterExpression(expression)
+    : undefined;
+}
+
+/**
+ * Narrow a long list with a filter expression before a multiselect
+ */
+async function filterBeforeSelecting(
+  repositories: GitHubRepository[]
+): Promise<GitHubRepository[]> {
+  const query = await promptForFilter();
+  if (!query) return repositories;
+
+  const matching = repositories.filter((repo) => matchesQuery(repo, query));
+  console.log(
+    `🔎 ${matching.length} of ${repositories.length} repositories match "${query.expression}"`
+  );
+  return matching;
+}
 
 /**
  * Interactive workflow to edit a single repository
@@ -13,6 +128,7 @@ export async function editSingleRepository(
   console.log(`\n📝 Editing repository: ${repo.name}`);
   console.log(`Current description: ${repo.description || "No description"}`);
   console.log(`Current homepage: ${repo.homepage || "No homepage"}`);
+  console.log(`Current topics: ${getTopics(repo).join(", ") || "No topics"}`);
 
   const updateData: RepositoryUpdateData = {};
 
@@ -44,6 +160,20 @@ export async function editSingleRepository(
     updateData.homepage = newHomepage.trim();
   }
 
+  // Edit topics
+  const newTopics = (await text({
+    message: "Enter topics, comma-separated (leave unchanged to keep current):",
+    placeholder: "cli, typescript",
+    initialValue: getTopics(repo).join(", "),
+  })) as string;
+
+  if (newTopics !== undefined) {
+    const topics = planTopicEdit(repo, { replace: parseTopicList(newTopics) });
+    if (topics !== undefined) {
+      updateData.topics = topics;
+    }
+  }
+
   // Edit privacy setting
   const changePrivacy = await confirm({
     message: `Repository is currently ${
@@ -56,49 +186,59 @@ export async function editSingleRepository(
     updateData.private = !repo.private;
   }
 
-  // Edit features
+  // Edit features and settings
   const editFeatures = await confirm({
-    message: "Edit repository features (issues, wiki, projects)?",
+    message:
+      "Edit repository features and settings (issues, wiki, discussions, merge methods, default branch)?",
     initialValue: false,
   });
 
+  // Merge settings are only included in a single repository's details
+  const currentRepo = editFeatures
+    ? await githubService.getRepository(repo.owner.login, repo.name)
+    : repo;
+
   if (editFeatures) {
-    // Get current repository details to see current feature settings
-    const currentRepo = await githubService.getRepository(
-      repo.owner.login,
-      repo.name
-    );
+    const enabled = (await multiselect({
+      message: "Select features and settings to enable:",
+      options: BOOLEAN_SETTINGS.map(({ key, label }) => ({
+        value: key,
+        label,
+        hint: currentRepo[key] ? "Currently enabled" : "Currently disabled",
+      })),
+      initialValues: BOOLEAN_SETTINGS.filter(({ key }) => currentRepo[key]).map(
+        ({ key }) => key
+      ),
+      required: false,
+    })) as BooleanRepositorySetting[];
+
+    // Only send settings that change
+    BOOLEAN_SETTINGS.forEach(({ key }) => {
+      const value = enabled.includes(key);
+      if (value !== (currentRepo[key] ?? false)) {
+        updateData[key] = value;
+      }
+    });
 
-    const features = (await multiselect({
-      message: "Select features to enable:",
-      options: [
-        {
-          value: "has_issues",
-          label: "Issues",
-          hint: currentRepo.has_issues
-            ? "Currently enabled"
-            : "Currently disabled",
-        },
-        {
-          value: "has_wiki",
-          label: "Wiki",
-          hint: currentRepo.has_wiki
-            ? "Currently enabled"
-            : "Currently disabled",
-        },
-        {
-          value: "has_projects",
-          label: "Projects",
-          hint: currentRepo.has_projects
-            ? "Currently enabled"
-            : "Currently disabled",
-        },
-      ],
-    })) as string[];
+    const defaultBranch = (await text({
+      message: "Default branch (leave unchanged to keep current):",
+      initialValue: currentRepo.default_branch,
+    })) as string;
+
+    if (
+      defaultBranch &&
+      defaultBranch.trim() !== "" &&
+      defaultBranch.trim() !== currentRepo.default_branch
+    ) {
+      updateData.default_branch = defaultBranch.trim();
+    }
 
-    updateData.has_issues = features.includes("has_issues");
-    updateData.has_wiki = features.includes("has_wiki");
-    updateData.has_projects = features.includes("has_projects");
+    try {
+      validateMergeMethods(updateData, currentRepo);
+    } catch (error) {
+      console.log(`❌ ${(error as Error).message}`);
+      return;
+    }
   }
 
   // Show changes summary
@@ -120,6 +260,13 @@ export async function editSingleRepository(
       `  Homepage: "${repo.homepage || "None"}" → "${updateData.homepage}"`
     );
   }
+  if (updateData.topics !== undefined) {
+    console.log(
+      `  Topics: ${formatFieldValue(getTopics(repo))} → ${formatFieldValue(
+        updateData.topics
+      )}`
+    );
+  }
   if (updateData.private !== undefined) {
     console.log(
       `  Privacy: ${repo.private ? "Private" : "Public"} → ${
@@ -127,15 +274,14 @@ export async function editSingleRepository(
       }`
     );
   }
-  if (updateData.has_issues !== undefined) {
-    console.log(`  Issues: ${updateData.has_issues ? "Enabled" : "Disabled"}`);
-  }
-  if (updateData.has_wiki !== undefined) {
-    console.log(`  Wiki: ${updateData.has_wiki ? "Enabled" : "Disabled"}`);
-  }
-  if (updateData.has_projects !== undefined) {
+  BOOLEAN_SETTINGS.forEach(({ key, label }) => {
+    if (updateData[key] !== undefined) {
+      console.log(`  ${label}: ${updateData[key] ? "Enabled" : "Disabled"}`);
+    }
+  });
+  if (updateData.default_branch !== undefined) {
     console.log(
-      `  Projects: ${updateData.has_projects ? "Enabled" : "Disabled"}`
+      `  Default branch: ${currentRepo.default_branch} → ${updateData.default_branch}`
     );
   }
 
@@ -160,7 +306,8 @@ export async function editSingleRepository(
  */
 export async function batchEditRepositories(
   githubService: GitHubService,
-  repositories: GitHubRepository[]
+  repositories: GitHubRepository[],
+  analysis?: RepositoryAnalysis
 ): Promise<void> {
   console.log(`\n🔧 Batch editing ${repositories.length} repositories`);
 
@@ -183,6 +330,38 @@ export async function batchEditRepositories(
         value: "custom-updates",
         label: "Apply custom updates to selected repositories",
       },
+      {
+        value: "auto-fix",
+        label: "Apply automatic fixes from analysis rules",
+      },
+      {
+        value: "manage-topics",
+        label: "Add, remove or replace topics",
+      },
+      {
+        value: "archive",
+        label: "Archive stale repositories or unarchive archived ones",
+      },
+      {
+        value: "move",
+        label: "Rename or transfer repositories",
+      },
+      {
+        value: "protect-branches",
+        label: "Apply a branch protection profile to default branches",
+      },
+      {
+        value: "sync-labels",
+        label: "Sync labels and milestones from a file",
+      },
+      {
+        value: "scaffold-files",
+        label: "Add missing community files from templates",
+      },
+      {
+        value: "import-csv",
+        label: "Import changes from an edited CSV export",
+      },
     ],
   });
 
@@ -191,7 +370,11 @@ export async function batchEditRepositories(
       await batchAddDescriptions(githubService, repositories);
       break;
     case "fix-homepage":
-      await batchFixHomepages(githubService, repositories);
+      await batchFixHomepages(
+        githubService,
+        repositories,
+        analysis?.homepageChecks
+      );
       break;
     case "update-privacy":
       await batchUpdatePrivacy(githubService, repositories);
@@ -199,7 +382,757 @@ export async function batchEditRepositories(
     case "custom-updates":
       await batchCustomUpdates(githubService, repositories);
       break;
+    case "auto-fix":
+      await batchAutoFix(githubService, repositories, analysis);
+      break;
+    case "manage-topics":
+      await batchManageTopics(githubService, repositories);
+      break;
+    case "archive":
+      await batchArchive(githubService, repositories);
+      break;
+    case "move":
+      await batchMoveRepositories(githubService, repositories);
+      break;
+    case "protect-branches":
+      await batchProtectBranches(githubService, repositories, analysis);
+      break;
+    case "sync-labels":
+      await batchSyncLabels(githubService, repositories);
+      break;
+    case "scaffold-files":
+      await batchScaffoldFiles(githubService, repositories, analysis);
+      break;
+    case "import-csv":
+      await batchImportCsv(githubService, repositories);
+      break;
+  }
+}
+
+/**
+ * Archive repositories with no recent pushes, or unarchive archived ones,
+ * and optionally write the outcome to a report file
+ */
+async function batchArchive(
+  githubService: GitHubService,
+  repositories: GitHubRepository[]
+): Promise<void> {
+  const action = (await select({
+    message: "What would you like to do?",
+    options: [
+      { value: "archive", label: "Archive stale repositories" },
+      { value: "unarchive", label: "Unarchive archived repositories" },
+    ],
+  })) as LifecycleAction;
+
+  let candidates: StaleRepository[];
+
+  if (action === "archive") {
+    const monthsInput = (await text({
+      message: "Archive repositories with no push in how many months?",
+      placeholder: String(DEFAULT_STALE_MONTHS),
+      defaultValue: String(DEFAULT_STALE_MONTHS),
+      validate: (value) => {
+        if (value && !(parseInt(value, 10) > 0)) {
+          return "Enter a positive number of months";
+        }
+      },
+    })) as string;
+    const months = parseInt(monthsInput, 10) || DEFAULT_STALE_MONTHS;
+
+    candidates = findStaleRepositories(repositories, months);
+    if (candidates.length === 0) {
+      console.log(
+        `✅ Every repository was pushed to in the last ${months} months!`
+      );
+      return;
+    }
+    console.log(
+      `\n🕸️  Found ${candidates.length} repositories with no push in ${months}+ months`
+    );
+  } else {
+    candidates = repositories
+      .filter((repo) => repo.archived)
+      .map(describeActivity);
+    if (candidates.length === 0) {
+      console.log("✅ No archived repositories.");
+      return;
+    }
+    console.log(`\n📦 Found ${candidates.length} archived repositories`);
+  }
+
+  const narrowed = await filterBeforeSelecting(candidates.map((c) => c.repo));
+  const offered = candidates.filter((c) => narrowed.includes(c.repo));
+  if (offered.length === 0) {
+    console.log("No repositories match the filter.");
+    return;
+  }
+
+  const selectedRepos = (await multiselect({
+    message: `Select repositories to ${action}:`,
+    options: offered.map((entry) => ({
+      value: entry.repo.name,
+      label: entry.repo.name,
+      hint: `last push: ${formatLastActivity(entry)}`,
+    })),
+  })) as string[];
+
+  if (selectedRepos.length === 0) {
+    console.log("No repositories selected.");
+    return;
+  }
+
+  const selected = offered.filter((c) => selectedRepos.includes(c.repo.name));
+  const confirmUpdate = await confirm({
+    message: `${action === "archive" ? "Archive" : "Unarchive"} ${
+      selected.length
+    } repositories?`,
+    initialValue: false,
+  });
+
+  if (!confirmUpdate) {
+    console.log("❌ Changes cancelled.");
+    return;
+  }
+
+  const results = await githubService.batchUpdateRepositories(
+    selected.map(({ repo }) => ({
+      owner: repo.owner.login,
+      repo: repo.name,
+      data: { archived: action === "archive" },
+    }))
+  );
+
+  const reportFile = (await text({
+    message:
+      "Save a report of the outcome? Enter filename (.txt or .json) or leave empty to skip:",
+    placeholder: `${action}-report.txt`,
+  })) as string;
+
+  if (reportFile && reportFile.trim() !== "") {
+    await writeLifecycleReportToFile(
+      buildLifecycleReport(action, selected, results),
+      reportFile.trim(),
+      githubService.isDryRun
+    );
+  }
+}
+
+/**
+ * Rename selected repositories with a pattern or transfer them to another
+ * owner, then optionally save the old → new mappings
+ */
+async function batchMoveRepositories(
+  githubService: GitHubService,
+  repositories: GitHubRepository[]
+): Promise<void> {
+  const action = (await select({
+    message: "What would you like to do?",
+    options: [
+      { value: "rename", label: "Rename repositories with a pattern" },
+      {
+        value: "transfer",
+        label: "Transfer repositories to another user or organization",
+      },
+    ],
+  })) as MoveAction;
+
+  const candidates = await filterBeforeSelecting(repositories);
+  const selectedRepos = (await multiselect({
+    message: `Select repositories to ${action}:`,
+    options: candidates.map((repo) => ({
+      value: repo.name,
+      label: repo.name,
+      hint: repo.description || undefined,
+    })),
+  })) as string[];
+
+  if (selectedRepos.length === 0) {
+    console.log("No repositories selected.");
+    return;
+  }
+
+  const selected = candidates.filter((repo) =>
+    selectedRepos.includes(repo.name)
+  );
+  let plan: RepositoryMovePlan;
+  let newOwner = "";
+
+  if (action === "rename") {
+    const pattern = (await text({
+      message: "New name pattern (use {name} and {owner}):",
+      placeholder: RENAME_PATTERN_EXAMPLE,
+      validate: (value) => {
+        if (!value || value.trim() === "") return "Pattern is required";
+      },
+    })) as string;
+    plan = planRenames(selected, repositories, pattern);
+  } else {
+    newOwner = (
+      (await text({
+        message: "Transfer to which user or organization?",
+        validate: (value) => {
+          if (!value || value.trim() === "") return "New owner is required";
+        },
+      })) as string
+    ).trim();
+    plan = planTransfers(selected, newOwner);
+  }
+
+  plan = await checkMoveTargets(plan, (owner, name) =>
+    githubService.repositoryExists(owner, name)
+  );
+  console.log(`\n${formatMovePlan(plan)}`);
+
+  if (plan.conflicts.length > 0) {
+    console.log(
+      "❌ Resolve the conflicts above (e.g. with a different pattern) and try again."
+    );
+    return;
+  }
+  if (plan.moves.length === 0) {
+    console.log("✅ Nothing to update.");
+    return;
+  }
+
+  const confirmMove = await confirm({
+    message:
+      action === "rename"
+        ? `Rename ${plan.moves.length} repositories?`
+        : `Transfer ${plan.moves.length} repositories to ${newOwner}? Links to them will redirect, but you may lose access.`,
+    initialValue: false,
+  });
+
+  if (!confirmMove) {
+    console.log("❌ Changes cancelled.");
+    return;
+  }
+
+  const results =
+    action === "rename"
+      ? await githubService.batchUpdateRepositories(
+          plan.moves.map(({ repo, to }) => ({
+            owner: repo.owner.login,
+            repo: repo.name,
+            data: { name: to.split("/", 2)[1] },
+          }))
+        )
+      : await githubService.batchTransferRepositories(
+          plan.moves.map(({ repo }) => ({
+            owner: repo.owner.login,
+            repo: repo.name,
+            newOwner,
+          }))
+        );
+
+  const mappingFile = (await text({
+    message:
+      "Save old → new mappings for updating links? Enter filename (.json, .csv or .txt) or leave empty to skip:",
+    placeholder: `${action}-mappings.csv`,
+  })) as string;
+
+  if (mappingFile && mappingFile.trim() !== "") {
+    await writeRepositoryMappingsToFile(
+      buildRepositoryMappings(plan, results),
+      mappingFile.trim(),
+      githubService.isDryRun
+    );
+  }
+}
+
+/**
+ * Apply a built-in or file-based protection profile to the default branch of
+ * selected repositories, preselecting those the analysis flagged
+ */
+async function batchProtectBranches(
+  githubService: GitHubService,
+  repositories: GitHubRepository[],
+  analysis?: RepositoryAnalysis
+): Promise<void> {
+  const profileName = (await select({
+    message: "Choose a protection profile:",
+    options: [
+      ...Object.keys(PROTECTION_PROFILES).map((name) => ({
+        value: name,
+        label: name,
+        hint: name === DEFAULT_PROTECTION_PROFILE ? "default" : undefined,
+      })),
+      { value: "file", label: "Load a profile from a YAML/JSON file" },
+    ],
+    initialValue: DEFAULT_PROTECTION_PROFILE,
+  })) as string;
+
+  const profileSource =
+    profileName === "file"
+      ? ((await text({
+          message: "Enter the profile file path:",
+          placeholder: "protection.yml",
+          validate: (value) => {
+            if (!value || value.trim() === "") return "File path is required";
+          },
+        })) as string)
+      : profileName;
+
+  let profile: ProtectionProfile;
+  try {
+    profile = await loadProtectionProfile(profileSource.trim());
+  } catch (error) {
+    console.error(
+      `❌ ${error instanceof Error ? error.message : "Failed to load profile"}`
+    );
+    return;
+  }
+
+  const statusChecks = (await text({
+    message:
+      "Required status checks (comma-separated, leave empty to keep the profile's):",
+    placeholder: "ci, lint",
+  })) as string;
+  if (statusChecks && statusChecks.trim() !== "") {
+    profile.status_checks = statusChecks
+      .split(",")
+      .map((check) => check.trim())
+      .filter(Boolean);
+  }
+
+  console.log(`\n🛡️  Protection profile:`);
+  console.log(describeProtectionProfile(profile));
+
+  // Archived repositories are read-only
+  const candidates = await filterBeforeSelecting(
+    repositories.filter((repo) => !repo.archived)
+  );
+  const protection = analysis?.context.branchProtection;
+
+  const selectedRepos = (await multiselect({
+    message: "Select repositories to protect:",
+    options: candidates.map((repo) => {
+      const status = protection?.get(repo.id);
+      return {
+        value: repo.name,
+        label: repo.name,
+        hint: status
+          ? describeBranchProtection(status)
+          : `${repo.default_branch}: not checked`,
+      };
+    }),
+    initialValues: candidates
+      .filter((repo) => {
+        const status = protection?.get(repo.id);
+        return status !== undefined && needsProtection(status);
+      })
+      .map((repo) => repo.name),
+  })) as string[];
+
+  if (selectedRepos.length === 0) {
+    console.log("No repositories selected.");
+    return;
+  }
+
+  const confirmUpdate = await confirm({
+    message: `Apply this profile to the default branch of ${selectedRepos.length} repositories?`,
+    initialValue: false,
+  });
+
+  if (!confirmUpdate) {
+    console.log("❌ Changes cancelled.");
+    return;
+  }
+
+  await githubService.batchProtectBranches(
+    candidates.filter((repo) => selectedRepos.includes(repo.name)),
+    profile
+  );
+}
+
+/**
+ * Make the labels and milestones of selected repositories match a YAML/JSON
+ * file, previewing every change before applying
+ */
+async function batchSyncLabels(
+  githubService: GitHubService,
+  repositories: GitHubRepository[]
+): Promise<void> {
+  const filename = (await text({
+    message: "Enter the label file path:",
+    placeholder: "labels.yml",
+    validate: (value) => {
+      if (!value || value.trim() === "") return "File path is required";
+    },
+  })) as string;
+
+  let labelSet: LabelSet;
+  try {
+    labelSet = await loadLabelSet(filename.trim());
+  } catch (error) {
+    console.error(
+      `❌ ${error instanceof Error ? error.message : "Failed to load labels"}`
+    );
+    return;
+  }
+  console.log(`\n🏷️  ${describeLabelSet(labelSet)} in ${filename.trim()}`);
+
+  const kinds = [
+    ...(labelSet.labels ? ["labels"] : []),
+    ...(labelSet.milestones ? ["milestones"] : []),
+  ].join(" and ");
+  const deleteExtra = (await confirm({
+    message: `Delete ${kinds} that are not in the file?`,
+    initialValue: false,
+  })) as boolean;
+
+  // Archived repositories are read-only
+  const candidates = await filterBeforeSelecting(
+    repositories.filter((repo) => !repo.archived)
+  );
+
+  const selectedRepos = (await multiselect({
+    message: "Select repositories to sync:",
+    options: candidates.map((repo) => ({
+      value: repo.name,
+      label: repo.name,
+    })),
+  })) as string[];
+
+  if (selectedRepos.length === 0) {
+    console.log("No repositories selected.");
+    return;
+  }
+
+  const plans = await githubService.planLabelSync(
+    candidates.filter((repo) => selectedRepos.includes(repo.name)),
+    labelSet,
+    deleteExtra
+  );
+  console.log(`\n${formatSyncPlan(plans)}`);
+
+  const pending = plans.filter((plan) => plan.changes.length > 0);
+  if (pending.length === 0) return;
+
+  const deletions = countSyncDeletions(pending);
+  const confirmUpdate = await confirm({
+    message: `Apply these changes to ${pending.length} repositories?${
+      deletions > 0
+        ? ` ${deletions} deletions also remove labels and milestones from issues.`
+        : ""
+    }`,
+    initialValue: false,
+  });
+
+  if (!confirmUpdate) {
+    console.log("❌ Changes cancelled.");
+    return;
   }
+
+  await githubService.batchSyncLabels(pending);
+}
+
+/**
+ * Commit community files that selected repositories lack from a directory of
+ * templates, reusing the file checks of an analysis when there was one
+ */
+async function batchScaffoldFiles(
+  githubService: GitHubService,
+  repositories: GitHubRepository[],
+  analysis?: RepositoryAnalysis
+): Promise<void> {
+  const directory = (await text({
+    message:
+      "Enter the template directory (use {name}, {owner} and {description} in templates):",
+    placeholder: "templates",
+    validate: (value) => {
+      if (!value || value.trim() === "") return "Directory is required";
+    },
+  })) as string;
+
+  let templates: CommunityFileTemplate[];
+  try {
+    templates = await loadCommunityTemplates(directory.trim());
+  } catch (error) {
+    console.error(
+      `❌ ${
+        error instanceof Error ? error.message : "Failed to load templates"
+      }`
+    );
+    return;
+  }
+  console.log(
+    `\n📄 Templates: ${templates.map((template) => template.path).join(", ")}`
+  );
+
+  // Archived repositories are read-only
+  const candidates = await filterBeforeSelecting(
+    repositories.filter((repo) => !repo.archived)
+  );
+  const communityFiles =
+    analysis && analysis.context.communityFiles.size > 0
+      ? analysis.context.communityFiles
+      : await githubService.auditCommunityFiles(candidates);
+
+  const plan = planScaffold(candidates, communityFiles, templates);
+  if (plan.length === 0) {
+    console.log(formatScaffoldPlan(plan));
+    return;
+  }
+
+  const selectedRepos = (await multiselect({
+    message: "Select repositories to add files to:",
+    options: plan.map(({ repo, files }) => ({
+      value: repo.name,
+      label: repo.name,
+      hint: `adds ${files
+        .map((file) => file.path)
+        .join(", ")}; missing ${describeCommunityFiles(
+        missingCommunityFiles(communityFiles.get(repo.id)!)
+      )}`,
+    })),
+    initialValues: plan.map(({ repo }) => repo.name),
+  })) as string[];
+
+  if (selectedRepos.length === 0) {
+    console.log("No repositories selected.");
+    return;
+  }
+
+  const selectedPlan = plan.filter(({ repo }) =>
+    selectedRepos.includes(repo.name)
+  );
+  console.log(`\n${formatScaffoldPlan(selectedPlan)}`);
+
+  const message = (await text({
+    message: "Commit message ({file} is the file name):",
+    placeholder: DEFAULT_SCAFFOLD_MESSAGE,
+    defaultValue: DEFAULT_SCAFFOLD_MESSAGE,
+  })) as string;
+
+  const confirmUpdate = await confirm({
+    message: `Commit these files to the default branch of ${selectedPlan.length} repositories?`,
+    initialValue: false,
+  });
+
+  if (!confirmUpdate) {
+    console.log("❌ Changes cancelled.");
+    return;
+  }
+
+  await githubService.batchCommitFiles(
+    selectedPlan,
+    message || DEFAULT_SCAFFOLD_MESSAGE
+  );
+}
+
+/**
+ * Add, remove or replace topics across selected repositories
+ */
+async function batchManageTopics(
+  githubService: GitHubService,
+  repositories: GitHubRepository[]
+): Promise<void> {
+  const mode = (await select({
+    message: "How should topics change?",
+    options: [
+      { value: "add", label: "Add topics" },
+      { value: "remove", label: "Remove topics" },
+      { value: "replace", label: "Replace all topics" },
+    ],
+  })) as "add" | "remove" | "replace";
+
+  const input = (await text({
+    message:
+      "Enter topics, comma-separated ({language}, {name} and {owner} are filled per repository):",
+    placeholder: "{language}, cli",
+  })) as string;
+
+  const topics = parseTopicList(input || "");
+  if (topics.length === 0 && mode !== "replace") {
+    console.log("❌ At least one topic is required");
+    return;
+  }
+
+  const candidates = await filterBeforeSelecting(repositories);
+  if (candidates.length === 0) {
+    console.log("No repositories match the filter.");
+    return;
+  }
+
+  const selectedRepos = (await multiselect({
+    message: "Select repositories:",
+    options: candidates.map((repo) => ({
+      value: repo.name,
+      label: repo.name,
+      hint: getTopics(repo).join(", ") || "No topics",
+    })),
+  })) as string[];
+
+  const updates: Array<{
+    owner: string;
+    repo: string;
+    data: RepositoryUpdateData;
+  }> = [];
+
+  console.log("\n📋 Topic changes:");
+  repositories
+    .filter((repo) => selectedRepos.includes(repo.name))
+    .forEach((repo) => {
+      try {
+        const newTopics = planTopicEdit(repo, { [mode]: topics });
+        if (newTopics === undefined) return;
+
+        console.log(
+          `  - ${repo.name}: ${formatFieldValue(
+            getTopics(repo)
+          )} → ${formatFieldValue(newTopics)}`
+        );
+        updates.push({
+          owner: repo.owner.login,
+          repo: repo.name,
+          data: { topics: newTopics },
+        });
+      } catch (error) {
+        console.log(
+          `  ⚠️  ${repo.name}: ${
+            error instanceof Error ? error.message : error
+          } (skipped)`
+        );
+      }
+    });
+
+  if (updates.length === 0) {
+    console.log("✅ No topic changes needed.");
+    return;
+  }
+
+  const confirmUpdate = await confirm({
+    message: `Update topics on ${updates.length} repositories?`,
+    initialValue: true,
+  });
+
+  if (!confirmUpdate) {
+    console.log("❌ Changes cancelled.");
+    return;
+  }
+
+  await githubService.batchUpdateRepositories(updates);
+}
+
+/**
+ * Apply description, homepage and privacy changes from an edited CSV export
+ */
+async function batchImportCsv(
+  githubService: GitHubService,
+  repositories: GitHubRepository[]
+): Promise<void> {
+  const filename = (await text({
+    message:
+      "Enter CSV file to import (Name column plus any of Description, Homepage, Private):",
+    placeholder: "repositories.csv",
+  })) as string;
+
+  if (!filename) {
+    console.log("❌ CSV file required for import");
+    return;
+  }
+
+  const delimiter = (await text({
+    message: 'Field delimiter (use "tab" for tabs):',
+    placeholder: ",",
+    defaultValue: ",",
+  })) as string;
+
+  const plan = planCsvImport(
+    await fs.readFile(filename.trim(), "utf8"),
+    repositories,
+    parseDelimiter(delimiter || ",")
+  );
+
+  if (plan.unknown.length > 0) {
+    console.log(
+      `⚠️  ${
+        plan.unknown.length
+      } rows match no repository and will be skipped: ${plan.unknown.join(
+        ", "
+      )}`
+    );
+  }
+
+  if (plan.updates.length === 0) {
+    console.log("✅ No changes. Repositories match the CSV.");
+    return;
+  }
+
+  console.log(`\n📋 Changes from ${filename}:\n`);
+  plan.updates.forEach(({ owner, repo, before, data }) =>
+    console.log(
+      formatUpdateDiff({ repo: `${owner}/${repo}`, before, after: data })
+    )
+  );
+
+  const confirmUpdate = await confirm({
+    message: `Apply changes to ${plan.updates.length} repositories?`,
+    initialValue: true,
+  });
+
+  if (!confirmUpdate) {
+    console.log("❌ Changes cancelled.");
+    return;
+  }
+
+  await githubService.batchUpdateRepositories(
+    plan.updates.map(({ owner, repo, data }) => ({ owner, repo, data }))
+  );
+}
+
+/**
+ * Apply the fixes proposed by analysis rules that define one
+ */
+async function batchAutoFix(
+  githubService: GitHubService,
+  repositories: GitHubRepository[],
+  analysis?: RepositoryAnalysis
+): Promise<void> {
+  const fixes = collectAutoFixes(
+    analysis ??
+      (await githubService.findRepositoriesNeedingUpdate(repositories))
+  ).filter((fix) => repositories.some((repo) => repo.name === fix.repo));
+
+  if (fixes.length === 0) {
+    console.log("✅ No automatic fixes available!");
+    return;
+  }
+
+  console.log(`\n🛠️  ${fixes.length} repositories have automatic fixes:`);
+  fixes.forEach((fix) => {
+    const changes = Object.entries(fix.data)
+      .map(([field, value]) => `${field} → ${formatFieldValue(value)}`)
+      .join(", ");
+    console.log(`  - ${fix.repo} (${fix.ruleIds.join(", ")}): ${changes}`);
+  });
+
+  const candidates = (await filterBeforeSelecting(repositories)).map(
+    (repo) => repo.name
+  );
+  const offered = fixes.filter((fix) => candidates.includes(fix.repo));
+  if (offered.length === 0) {
+    console.log("No fixes match the filter.");
+    return;
+  }
+
+  const selectedRepos = (await multiselect({
+    message: "Select fixes to apply:",
+    options: offered.map((fix) => ({ value: fix.repo, label: fix.repo })),
+    initialValues: offered.map((fix) => fix.repo),
+  })) as string[];
+
+  if (selectedRepos.length === 0) {
+    console.log("No repositories selected.");
+    return;
+  }
+
+  await githubService.batchUpdateRepositories(
+    fixes
+      .filter((fix) => selectedRepos.includes(fix.repo))
+      .map(({ owner, repo, data }) => ({ owner, repo, data }))
+  );
 }
 
 /**
@@ -222,15 +1155,28 @@ async function batchAddDescriptions(
     `\n📝 Found ${reposWithoutDescription.length} repositories without descriptions`
   );
 
-  const useTemplate = await confirm({
-    message:
-      "Use a template description? (Otherwise, you'll be prompted for each repo)",
-    initialValue: true,
+  const mode = await select({
+    message: "How would you like to write the descriptions?",
+    options: [
+      {
+        value: "template",
+        label: "Use a template description",
+        hint: "{name} and {owner} are filled in",
+      },
+      {
+        value: "suggest",
+        label: "Suggest one per repository",
+        hint: "from the README, package.json/pyproject.toml, or language and topics",
+      },
+      { value: "each", label: "Type a description for each repository" },
+    ],
   });
 
-  if (useTemplate) {
+  if (mode === "suggest") {
+    await reviewSuggestedDescriptions(githubService, reposWithoutDescription);
+  } else if (mode === "template") {
     const template = (await text({
-      message: "Enter description template (use {name} for repo name):",
+      message: "Enter description template (use {name} and {owner}):",
       placeholder: "A {name} project built with TypeScript",
     })) as string;
 
@@ -243,7 +1189,7 @@ async function batchAddDescriptions(
       owner: repo.owner.login,
       repo: repo.name,
       data: {
-        description: template.replace(/{name}/g, repo.name),
+        description: fillTemplate(template, repo),
       },
     }));
 
@@ -269,24 +1215,108 @@ async function batchAddDescriptions(
   }
 }
 
+/**
+ * Suggest a description for each repository from its own contents and let
+ * the user accept, edit or skip each one before updating them together
+ */
+async function reviewSuggestedDescriptions(
+  githubService: GitHubService,
+  repositories: GitHubRepository[]
+): Promise<void> {
+  const suggestions = await githubService.suggestDescriptions(repositories);
+  const withoutSuggestion = repositories.filter(
+    (repo) => !suggestions.some((suggestion) => suggestion.repo.id === repo.id)
+  );
+  if (withoutSuggestion.length > 0) {
+    console.log(
+      `\n🤷 No suggestion for: ${withoutSuggestion
+        .map((repo) => repo.name)
+        .join(", ")}`
+    );
+  }
+
+  const updates: Array<{
+    owner: string;
+    repo: string;
+    data: RepositoryUpdateData;
+  }> = [];
+
+  for (const { repo, description, source } of suggestions) {
+    console.log(`\n📝 ${repo.name} (from ${source}):\n   ${description}`);
+
+    const choice = await select({
+      message: "Use this description?",
+      options: [
+        { value: "accept", label: "Accept" },
+        { value: "edit", label: "Edit" },
+        { value: "skip", label: "Skip" },
+      ],
+    });
+
+    if (choice === "skip") continue;
+
+    const final =
+      choice === "edit"
+        ? ((await text({
+            message: `Edit description for ${repo.name}:`,
+            initialValue: description,
+            validate: (value) => {
+              if (!value || value.trim() === "") {
+                return "Description is required (skip the repository instead)";
+              }
+              if (value.trim().length > MAX_DESCRIPTION_LENGTH) {
+                return `Descriptions can be at most ${MAX_DESCRIPTION_LENGTH} characters`;
+              }
+            },
+          })) as string)
+        : description;
+
+    updates.push({
+      owner: repo.owner.login,
+      repo: repo.name,
+      data: { description: final.trim() },
+    });
+  }
+
+  if (updates.length === 0) {
+    console.log("No descriptions to update.");
+    return;
+  }
+
+  console.log("\n📋 Descriptions to set:");
+  updates.forEach(({ repo, data }) =>
+    console.log(`   • ${repo}: ${data.description}`)
+  );
+
+  const confirmUpdate = await confirm({
+    message: `Update the descriptions of ${updates.length} repositories?`,
+    initialValue: false,
+  });
+
+  if (!confirmUpdate) {
+    console.log("❌ Changes cancelled.");
+    return;
+  }
+
+  await githubService.batchUpdateRepositories(updates);
+}
+
 /**
  * Batch fix homepage URLs
  */
 async function batchFixHomepages(
   githubService: GitHubService,
-  repositories: GitHubRepository[]
+  repositories: GitHubRepository[],
+  homepageChecks: RepositoryAnalysis["homepageChecks"] = []
 ): Promise<void> {
+  const checkFor = (repo: GitHubRepository) =>
+    homepageChecks.find((c) => c.repo.id === repo.id)?.result;
+
   const reposWithIssues = repositories.filter((repo) => {
-    if (!repo.homepage) return false;
-
-    const homepage = repo.homepage.toLowerCase();
-    return (
-      (!homepage.startsWith("http://") &&
-        !homepage.startsWith("https://") &&
-        !homepage.startsWith("www.")) ||
-      homepage.includes("localhost") ||
-      homepage.includes("127.0.0.1")
-    );
+    if (isMalformedHomepage(repo.homepage)) return true;
+
+    const check = checkFor(repo);
+    return check !== undefined && isHomepageProblem(check);
   });
 
   if (reposWithIssues.length === 0) {
@@ -299,18 +1329,25 @@ async function batchFixHomepages(
   );
 
   for (const repo of reposWithIssues) {
+    const check = checkFor(repo);
+
     console.log(`\n📝 Fixing homepage for: ${repo.name}`);
     console.log(`Current homepage: ${repo.homepage}`);
+    if (check) {
+      console.log(`Status: ${describeHomepageCheck(check)}`);
+    }
 
+    // Offer the redirect target as the suggested fix
     const newHomepage = (await text({
       message: "Enter corrected homepage URL (or leave empty to remove):",
       placeholder: "https://example.com",
+      initialValue: check?.finalUrl,
     })) as string;
 
     if (newHomepage !== undefined) {
       try {
         await githubService.updateRepository(repo.owner.login, repo.name, {
-          homepage: newHomepage.trim() || null,
+          homepage: newHomepage.trim(),
         });
       } catch (error) {
         console.error(`Failed to update ${repo.name}: ${error}`);
@@ -349,8 +1386,10 @@ async function batchUpdatePrivacy(
     ],
   });
 
-  const targetRepos = action === "make-private" ? publicRepos : privateRepos;
   const targetPrivacy = action === "make-private";
+  const targetRepos = await filterBeforeSelecting(
+    targetPrivacy ? publicRepos : privateRepos
+  );
 
   if (targetRepos.length === 0) {
     console.log("No repositories available for this operation.");
@@ -391,9 +1430,15 @@ async function batchCustomUpdates(
   githubService: GitHubService,
   repositories: GitHubRepository[]
 ): Promise<void> {
+  const candidates = await filterBeforeSelecting(repositories);
+  if (candidates.length === 0) {
+    console.log("No repositories match the filter.");
+    return;
+  }
+
   const selectedRepos = (await multiselect({
     message: "Select repositories to update:",
-    options: repositories.map((repo) => ({
+    options: candidates.map((repo) => ({
       value: repo.name,
       label: `${repo.name} (${repo.description || "No description"})`,
     })),
@@ -418,7 +1463,7 @@ async function batchCustomUpdates(
 
   if (updateDescription) {
     const description = (await text({
-      message: "Enter new description (use {name} for repository name):",
+      message: "Enter new description (use {name} and {owner}):",
       placeholder: "A {name} project",
     })) as string;
 
@@ -435,7 +1480,7 @@ async function batchCustomUpdates(
 
   if (updateHomepage) {
     const homepage = (await text({
-      message: "Enter homepage URL (use {name} for repository name):",
+      message: "Enter homepage URL (use {name} and {owner}):",
       placeholder: "https://username.github.io/{name}",
     })) as string;
 
@@ -444,6 +1489,42 @@ async function batchCustomUpdates(
     }
   }
 
+  // Features and settings
+  const updateSettings = await confirm({
+    message:
+      "Update features and settings (discussions, merge methods, auto-merge...)?",
+    initialValue: false,
+  });
+
+  if (updateSettings) {
+    const enable = (await multiselect({
+      message: "Select settings to enable:",
+      options: BOOLEAN_SETTINGS.map(({ key, label }) => ({
+        value: key,
+        label,
+      })),
+      required: false,
+    })) as BooleanRepositorySetting[];
+
+    const disable = (await multiselect({
+      message: "Select settings to disable:",
+      options: BOOLEAN_SETTINGS.filter(({ key }) => !enable.includes(key)).map(
+        ({ key, label }) => ({ value: key, label })
+      ),
+      required: false,
+    })) as BooleanRepositorySetting[];
+
+    enable.forEach((key) => (updateData[key] = true));
+    disable.forEach((key) => (updateData[key] = false));
+
+    try {
+      validateMergeMethods(updateData);
+    } catch (error) {
+      console.log(`❌ ${(error as Error).message}`);
+      return;
+    }
+  }
+
   if (Object.keys(updateData).length === 0) {
     console.log("No updates configured.");
     return;
@@ -455,16 +1536,13 @@ async function batchCustomUpdates(
 
     // Replace placeholders
     if (repoUpdateData.description) {
-      repoUpdateData.description = repoUpdateData.description.replace(
-        /{name}/g,
-        repo.name
+      repoUpdateData.description = fillTemplate(
+        repoUpdateData.description,
+        repo
       );
     }
     if (repoUpdateData.homepage) {
-      repoUpdateData.homepage = repoUpdateData.homepage.replace(
-        /{name}/g,
-        repo.name
-      );
+      repoUpdateData.homepage = fillTemplate(repoUpdateData.homepage, repo);
     }
 
     return {
@@ -479,38 +1557,82 @@ async function batchCustomUpdates(
 
 /**
  * Analyze repositories and optionally save analysis report
+ * @param options.reportFile Write the report here without prompting
+ * @param options.interactive Set to false to skip all prompts (report file and batch editing)
+ * @param options.checkHomepages Request each homepage over HTTP; asked interactively when unset
+ * @param options.checkHealth Check community files and score health; asked interactively when unset
  */
 export async function analyzeRepositories(
   githubService: GitHubService,
   repositories: GitHubRepository[],
-  username: string
-): Promise<void> {
+  username: string,
+  options: {
+    reportFile?: string;
+    interactive?: boolean;
+    checkHomepages?: boolean;
+    checkProtection?: boolean;
+    checkHealth?: boolean;
+  } = {}
+): Promise<RepositoryAnalysis> {
+  const { reportFile, interactive = true } = options;
+  let { checkHomepages, checkProtection, checkHealth } = options;
+
+  if (checkHomepages === undefined && interactive) {
+    checkHomepages = (await confirm({
+      message: "Check that homepages are reachable over HTTP? (slower)",
+      initialValue: false,
+    })) as boolean;
+  }
+
+  if (checkProtection === undefined && interactive) {
+    checkProtection = (await confirm({
+      message:
+        "Check default branch protection? (one request per repository, needs admin access)",
+      initialValue: false,
+    })) as boolean;
+  }
+
+  if (checkHealth === undefined && interactive) {
+    checkHealth = (await confirm({
+      message:
+        "Check community files and score repository health? (one request per repository)",
+      initialValue: false,
+    })) as boolean;
+  }
+
   const analysis = await githubService.findRepositoriesNeedingUpdate(
-    repositories
+    repositories,
+    { checkHomepages, checkProtection, checkCommunityFiles: checkHealth }
   );
 
-  const saveReport = await confirm({
-    message: "Save detailed analysis report to file?",
-    initialValue: true,
-  });
+  if (reportFile) {
+    await writeAnalysisToFile(repositories, analysis, username, reportFile);
+  } else if (interactive) {
+    const saveReport = await confirm({
+      message: "Save detailed analysis report to file?",
+      initialValue: true,
+    });
 
-  if (saveReport) {
-    const filename = (await text({
-      message: "Enter filename for analysis report:",
-      placeholder: "repository-analysis.txt",
-      defaultValue: "repository-analysis.txt",
-    })) as string;
+    if (saveReport) {
+      const filename = (await text({
+        message: "Enter filename for analysis report (.txt, .md or .html):",
+        placeholder: "repository-analysis.txt",
+        defaultValue: "repository-analysis.txt",
+      })) as string;
 
-    if (filename) {
-      await writeAnalysisToFile(repositories, analysis, username, filename);
+      if (filename) {
+        await writeAnalysisToFile(repositories, analysis, username, filename);
+      }
     }
   }
 
+  if (!interactive) {
+    return analysis;
+  }
+
   // Offer to start batch editing
-  const totalIssues =
-    analysis.missingDescription.length +
-    analysis.missingHomepage.length +
-    analysis.brokenHomepage.length;
+  const allProblematicRepos = getFlaggedRepositories(analysis);
+  const totalIssues = allProblematicRepos.length;
 
   if (totalIssues > 0) {
     const startEditing = await confirm({
@@ -519,15 +1641,9 @@ export async function analyzeRepositories(
     });
 
     if (startEditing) {
-      const allProblematicRepos = [
-        ...analysis.missingDescription,
-        ...analysis.missingHomepage,
-        ...analysis.brokenHomepage,
-      ].filter(
-        (repo, index, self) => self.findIndex((r) => r.id === repo.id) === index
-      ); // Remove duplicates
-
-      await batchEditRepositories(githubService, allProblematicRepos);
+      await batchEditRepositories(githubService, allProblematicRepos, analysis);
     }
   }
+
+  return analysis;
 }
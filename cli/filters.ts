@@ -0,0 +1,310 @@
+import {
+  GitHubRepository,
+  RepositoryFilter,
+  FlagFilterMode,
+  CLIOptions,
+  FilterOperator,
+  FilterTerm,
+  RepositoryQuery,
+  RepositoryFieldType,
+} from "./types.js";
+import {
+  getLicense,
+  getTopics,
+  REPOSITORY_FIELDS,
+  resolveRepositoryField,
+} from "./repository-fields.js";
+
+export const FILTER_EXAMPLE =
+  "language:TypeScript stars:>5 private:false pushed:<2024-01-01 name:~^lib-";
+
+const OPERATORS_BY_TYPE: Record<RepositoryFieldType, FilterOperator[]> = {
+  string: [":", "~"],
+  list: [":", "~"],
+  number: [":", ">", ">=", "<", "<="],
+  date: [":", ">", ">=", "<", "<="],
+  boolean: [":"],
+};
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true,
+  yes: true,
+  false: false,
+  no: false,
+};
+
+/**
+ * Split an expression on whitespace, keeping double-quoted values together
+ */
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  let token = "";
+  let inQuotes = false;
+  let hasToken = false;
+
+  for (const char of expression) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      hasToken = true;
+    } else if (/\s/.test(char) && !inQuotes) {
+      if (hasToken) tokens.push(token);
+      token = "";
+      hasToken = false;
+    } else {
+      token += char;
+      hasToken = true;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`Unterminated quote in filter "${expression}"`);
+  }
+  if (hasToken) tokens.push(token);
+  return tokens;
+}
+
+/**
+ * Match a value against a pattern where * stands for any text, case-insensitively
+ */
+function matchesWildcard(value: string, pattern: string): boolean {
+  const escaped = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}$`, "i").test(value);
+}
+
+function parseTerm(token: string): FilterTerm {
+  const negate = token.length > 1 && token.startsWith("-");
+  const body = negate ? token.slice(1) : token;
+  const match = body.match(/^([A-Za-z_]+):(>=|<=|>|<|~)?(.*)$/);
+
+  if (!match) {
+    return { operator: ":", value: body, negate };
+  }
+
+  const [, name, operator = ":", value] = match;
+  const resolved = resolveRepositoryField(name);
+
+  if (!resolved) {
+    throw new Error(
+      `Unknown filter field "${name}" (available: ${Object.keys(
+        REPOSITORY_FIELDS
+      ).join(", ")})`
+    );
+  }
+  if (value === "") {
+    throw new Error(`Missing value in filter term "${token}"`);
+  }
+
+  const { type } = resolved.field;
+  if (!OPERATORS_BY_TYPE[type].includes(operator as FilterOperator)) {
+    throw new Error(
+      `Operator "${operator}" cannot be used with ${type} field "${resolved.name}"`
+    );
+  }
+
+  if (operator === "~") {
+    try {
+      new RegExp(value, "i");
+    } catch {
+      throw new Error(`Invalid regular expression in filter term "${token}"`);
+    }
+  } else if (type === "number") {
+    const bounds = operator === ":" ? value.split("..") : [value];
+    if (bounds.length > 2 || bounds.some((b) => b !== "" && isNaN(Number(b)))) {
+      throw new Error(
+        `Expected a number or range (e.g. 5, >5 or 1..10) in filter term "${token}"`
+      );
+    }
+  } else if (type === "date" && isNaN(Date.parse(value))) {
+    throw new Error(
+      `Expected a date (e.g. 2024-01-01) in filter term "${token}"`
+    );
+  } else if (
+    type === "boolean" &&
+    !Object.hasOwn(BOOLEAN_VALUES, value.toLowerCase())
+  ) {
+    throw new Error(`Expected true or false in filter term "${token}"`);
+  }
+
+  return {
+    field: resolved.name,
+    operator: operator as FilterOperator,
+    value,
+    negate,
+  };
+}
+
+/**
+ * Parse a filter expression; every term must match for a repository to pass.
+ * Terms are field:value, with >, >=, <, <= for numbers and dates, ~ for
+ * regular expressions, * wildcards, "none" for empty values and a leading -
+ * to negate. Bare words match the name or description.
+ */
+export function parseFilterExpression(expression: string): RepositoryQuery {
+  return { expression, terms: tokenize(expression).map(parseTerm) };
+}
+
+function compare(actual: number, operator: FilterOperator, expected: number) {
+  switch (operator) {
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+}
+
+function matchesTerm(repo: GitHubRepository, term: FilterTerm): boolean {
+  if (!term.field) {
+    const text = term.value.toLowerCase();
+    return (
+      repo.name.toLowerCase().includes(text) ||
+      (repo.description ?? "").toLowerCase().includes(text)
+    );
+  }
+
+  const { type, value: getValue } = REPOSITORY_FIELDS[term.field];
+  const value = getValue(repo);
+  const { operator } = term;
+
+  switch (type) {
+    case "number": {
+      const actual = value as number;
+      if (operator === ":" && term.value.includes("..")) {
+        const [min, max] = term.value.split("..");
+        return (
+          (min === "" || actual >= Number(min)) &&
+          (max === "" || actual <= Number(max))
+        );
+      }
+      return compare(actual, operator, Number(term.value));
+    }
+
+    case "boolean":
+      return value === BOOLEAN_VALUES[term.value.toLowerCase()];
+
+    case "date": {
+      if (!value) return false;
+      // A partial date such as 2024-01 matches the whole month
+      if (operator === ":") return String(value).startsWith(term.value);
+      return compare(
+        Date.parse(String(value)),
+        operator,
+        Date.parse(term.value)
+      );
+    }
+
+    case "list": {
+      const items = value as string[];
+      if (operator === "~") {
+        const pattern = new RegExp(term.value, "i");
+        return items.some((item) => pattern.test(item));
+      }
+      if (term.value.toLowerCase() === "none") return items.length === 0;
+      return items.some((item) => matchesWildcard(item, term.value));
+    }
+
+    case "string":
+    default: {
+      const text = (value as string | null) ?? "";
+      if (operator === "~") return new RegExp(term.value, "i").test(text);
+      if (term.value.toLowerCase() === "none") return text.trim() === "";
+      return matchesWildcard(text, term.value);
+    }
+  }
+}
+
+/**
+ * Whether a repository matches every term of a parsed filter expression
+ */
+export function matchesQuery(
+  repo: GitHubRepository,
+  query: RepositoryQuery
+): boolean {
+  return query.terms.every((term) => matchesTerm(repo, term) !== term.negate);
+}
+
+function matchesFlag(
+  value: boolean,
+  mode: FlagFilterMode = "include"
+): boolean {
+  switch (mode) {
+    case "exclude":
+      return !value;
+    case "only":
+      return value;
+    case "include":
+    default:
+      return true;
+  }
+}
+
+/**
+ * Whether a repository passes every criterion of the filter
+ */
+export function matchesFilter(
+  repo: GitHubRepository,
+  filter: RepositoryFilter
+): boolean {
+  if (filter.query && !matchesQuery(repo, filter.query)) return false;
+  if (!matchesFlag(repo.archived, filter.archived)) return false;
+  if (!matchesFlag(repo.fork, filter.forks)) return false;
+
+  if (filter.topics && filter.topics.length > 0) {
+    const topics = getTopics(repo).map((topic) => topic.toLowerCase());
+    if (!filter.topics.every((t) => topics.includes(t.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  if (filter.license !== undefined) {
+    const license = getLicense(repo);
+    if (filter.license.toLowerCase() === "none") {
+      if (license !== null) return false;
+    } else if (license?.toLowerCase() !== filter.license.toLowerCase()) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Keep the repositories passing the filter, in their original order
+ */
+export function filterRepositories(
+  repositories: GitHubRepository[],
+  filter: RepositoryFilter
+): GitHubRepository[] {
+  return repositories.filter((repo) => matchesFilter(repo, filter));
+}
+
+/**
+ * Apply the --filter, --archived, --forks, --topic and --license options
+ */
+export function applyRepositoryFilters(
+  repositories: GitHubRepository[],
+  options: CLIOptions
+): GitHubRepository[] {
+  const filtered = filterRepositories(repositories, {
+    query: options.filter,
+    archived: options.archived,
+    forks: options.forks,
+    topics: options.topic,
+    license: options.license,
+  });
+
+  if (filtered.length !== repositories.length) {
+    console.log(
+      `🔎 ${filtered.length} of ${repositories.length} repositories match the filters`
+    );
+  }
+  return filtered;
+}
@@ -5,15 +5,42 @@ import {
   FormattedRepositoryData,
   FormattedRepository,
   OutputFormat,
+  RepositoryAnalysis,
+  DryRunEntry,
+  CsvOptions,
+  RepositoryQuery,
+  LifecycleReportEntry,
+  RepositoryMapping,
+  HealthScore,
 } from "./types.js";
+import { repositoriesToCsv, toCsv } from "./csv.js";
+import { matchesQuery } from "./filters.js";
+import {
+  getLicense,
+  getVisibility,
+  getTopics,
+  getRepositoryFlags,
+} from "./repository-fields.js";
+import { averageHealthScore, describeHealthGaps } from "./health.js";
+import { summarizeCommunityFiles } from "./community-files.js";
+
+/**
+ * Health scores keyed by repository ID
+ */
+function healthById(health?: HealthScore[]): Map<number, HealthScore> {
+  return new Map((health ?? []).map((entry) => [entry.repo.id, entry]));
+}
 
 /**
  * Format repositories as plain text
  */
 export function formatAsText(
   repos: GitHubRepository[],
-  username: string
+  username: string,
+  health?: HealthScore[]
 ): string {
+  const scores = healthById(health);
+
   let content = `GitHub Profile: https://github.com/${username}\n`;
   content += `Username: ${username}\n`;
   content += `Total Repositories: ${repos.length}\n`;
@@ -22,8 +49,11 @@ export function formatAsText(
   }\n`;
   content += `Private Repositories: ${
     repos.filter((repo) => repo.private).length
-  }\n\n`;
-  content += `Repositories:\n\n`;
+  }\n`;
+  if (health) {
+    content += `Average Health Score: ${averageHealthScore(health)}/100\n`;
+  }
+  content += `\nRepositories:\n\n`;
 
   repos.forEach((repo) => {
     content += `- ${repo.name} (${repo.stargazers_count} stars, ${repo.forks_count} forks)\n`;
@@ -32,9 +62,24 @@ export function formatAsText(
     }\n`;
     content += `  Language: ${repo.language || "Not specified"}\n`;
     content += `  Private: ${repo.private ? "Yes" : "No"}\n`;
+    content += `  Visibility: ${getVisibility(repo)}\n`;
     if (repo.homepage) {
       content += `  Homepage: ${repo.homepage}\n`;
     }
+    if (getTopics(repo).length > 0) {
+      content += `  Topics: ${getTopics(repo).join(", ")}\n`;
+    }
+    content += `  License: ${getLicense(repo) || "None"}\n`;
+    content += `  Default Branch: ${repo.default_branch}\n`;
+    if (getRepositoryFlags(repo).length > 0) {
+      content += `  Flags: ${getRepositoryFlags(repo).join(", ")}\n`;
+    }
+    content += `  Open Issues: ${repo.open_issues_count}\n`;
+    content += `  Watchers: ${repo.watchers_count}\n`;
+    content += `  Size: ${repo.size} KB\n`;
+    if (scores.has(repo.id)) {
+      content += `  Health Score: ${scores.get(repo.id)!.score}/100\n`;
+    }
     content += `  Repository URL: ${repo.html_url}\n`;
     content += `  Created At: ${repo.created_at}\n`;
     content += `  Updated At: ${repo.updated_at}\n`;
@@ -49,16 +94,20 @@ export function formatAsText(
  */
 export function formatAsJson(
   repos: GitHubRepository[],
-  username: string
+  username: string,
+  health?: HealthScore[]
 ): string {
+  const scores = healthById(health);
   const data: FormattedRepositoryData = {
     profile: `https://github.com/${username}`,
     username: username,
     total_repositories: repos.length,
     public_repositories: repos.filter((repo) => !repo.private).length,
     private_repositories: repos.filter((repo) => repo.private).length,
+    ...(health && { average_health_score: averageHealthScore(health) }),
     repositories: repos.map(
       (repo): FormattedRepository => ({
+        id: repo.id,
         name: repo.name,
         description: repo.description,
         stars: repo.stargazers_count,
@@ -67,9 +116,23 @@ export function formatAsJson(
         private: repo.private,
         homepage: repo.homepage,
         repository_url: repo.html_url,
+        topics: getTopics(repo),
+        license: getLicense(repo),
+        default_branch: repo.default_branch,
+        archived: repo.archived,
+        disabled: repo.disabled,
+        fork: repo.fork,
+        is_template: repo.is_template ?? false,
+        open_issues: repo.open_issues_count,
+        size_kb: repo.size,
+        visibility: getVisibility(repo),
+        watchers: repo.watchers_count,
         created_at: repo.created_at,
         updated_at: repo.updated_at,
         pushed_at: repo.pushed_at,
+        ...(scores.has(repo.id) && {
+          health_score: scores.get(repo.id)!.score,
+        }),
       })
     ),
   };
@@ -78,52 +141,18 @@ export function formatAsJson(
 }
 
 /**
- * Format repositories as CSV
+ * Format repositories as RFC 4180 CSV
  */
 export function formatAsCsv(
   repos: GitHubRepository[],
-  username: string
+  options: CsvOptions = {},
+  health?: HealthScore[]
 ): string {
-  const headers = [
-    "Name",
-    "Description",
-    "Stars",
-    "Forks",
-    "Language",
-    "Private",
-    "Homepage",
-    "Repository URL",
-    "Created At",
-    "Updated At",
-    "Last Push",
-  ];
-
-  let content = `# GitHub Profile: https://github.com/${username}\n`;
-  content += `# Total Repositories: ${repos.length}\n`;
-  content += `# Public: ${repos.filter((r) => !r.private).length}, Private: ${
-    repos.filter((r) => r.private).length
-  }\n\n`;
-
-  content += headers.join(",") + "\n";
-
-  repos.forEach((repo) => {
-    const row = [
-      `"${repo.name}"`,
-      `"${repo.description || ""}"`,
-      repo.stargazers_count,
-      repo.forks_count,
-      `"${repo.language || ""}"`,
-      repo.private ? "true" : "false",
-      `"${repo.homepage || ""}"`,
-      `"${repo.html_url}"`,
-      `"${repo.created_at}"`,
-      `"${repo.updated_at}"`,
-      `"${repo.pushed_at}"`,
-    ];
-    content += row.join(",") + "\n";
-  });
-
-  return content;
+  return repositoriesToCsv(
+    repos,
+    options,
+    health ? healthById(health) : undefined
+  );
 }
 
 /**
@@ -131,11 +160,7 @@ export function formatAsCsv(
  */
 export function formatAnalysisReport(
   repos: GitHubRepository[],
-  analysis: {
-    missingDescription: GitHubRepository[];
-    missingHomepage: GitHubRepository[];
-    brokenHomepage: GitHubRepository[];
-  },
+  analysis: RepositoryAnalysis,
   username: string
 ): string {
   let content = `Repository Analysis Report\n`;
@@ -145,41 +170,557 @@ export function formatAnalysisReport(
   content += `Analysis Date: ${new Date().toISOString()}\n\n`;
 
   content += `SUMMARY:\n`;
-  content += `- ${analysis.missingDescription.length} repositories missing descriptions\n`;
-  content += `- ${analysis.missingHomepage.length} repositories missing homepages\n`;
-  content += `- ${analysis.brokenHomepage.length} repositories with potentially broken homepages\n\n`;
+  analysis.results.forEach(({ rule, repositories }) => {
+    content += `- [${rule.severity}] ${repositories.length} ${rule.title}\n`;
+  });
+  if (analysis.homepageChecks) {
+    content += `- ${analysis.homepageChecks.length} homepages checked over HTTP\n`;
+  }
+  if (analysis.context.branchProtection.size > 0) {
+    content += `- ${analysis.context.branchProtection.size} default branches checked for protection\n`;
+  }
+  if (analysis.health) {
+    content += `- Average health score: ${averageHealthScore(
+      analysis.health
+    )}/100\n`;
+  }
+  content += `\n`;
 
-  if (analysis.missingDescription.length > 0) {
-    content += `REPOSITORIES MISSING DESCRIPTIONS:\n`;
+  analysis.results.forEach(({ rule, repositories }) => {
+    if (repositories.length === 0) return;
+
+    content += `${rule.title.toUpperCase()} (${rule.id}, ${rule.severity}):\n`;
     content += `${"-".repeat(40)}\n`;
-    analysis.missingDescription.forEach((repo) => {
+    repositories.forEach((repo) => {
       content += `- ${repo.name}\n`;
       content += `  URL: ${repo.html_url}\n`;
+      content += `  Description: ${repo.description || "No description"}\n`;
       content += `  Language: ${repo.language || "Not specified"}\n`;
-      content += `  Stars: ${repo.stargazers_count}, Forks: ${repo.forks_count}\n\n`;
+      content += `  Stars: ${repo.stargazers_count}, Forks: ${repo.forks_count}\n`;
+      if (rule.describe) {
+        content += `  ${rule.describe(repo, analysis.context)}\n`;
+      }
+      content += `\n`;
     });
+  });
+
+  if (analysis.homepageChecks && analysis.homepageChecks.length > 0) {
+    const counts = new Map<string, number>();
+    analysis.homepageChecks.forEach(({ result }) =>
+      counts.set(result.status, (counts.get(result.status) || 0) + 1)
+    );
+
+    content += `HOMEPAGE REACHABILITY:\n`;
+    content += `${"-".repeat(40)}\n`;
+    counts.forEach((count, status) => {
+      content += `- ${status}: ${count}\n`;
+    });
+    content += `\n`;
   }
 
-  if (analysis.missingHomepage.length > 0) {
-    content += `REPOSITORIES MISSING HOMEPAGES:\n`;
+  const { communityFiles } = analysis.context;
+  if (communityFiles.size > 0) {
+    content += `COMMUNITY FILE COVERAGE (${communityFiles.size} repositories checked):\n`;
     content += `${"-".repeat(40)}\n`;
-    analysis.missingHomepage.forEach((repo) => {
-      content += `- ${repo.name}\n`;
-      content += `  URL: ${repo.html_url}\n`;
-      content += `  Description: ${repo.description || "No description"}\n`;
-      content += `  Language: ${repo.language || "Not specified"}\n\n`;
+    summarizeCommunityFiles(communityFiles).forEach(({ label, count }) => {
+      content += `- ${label}: ${count} (${percentage(
+        count,
+        communityFiles.size
+      )})\n`;
     });
+    content += `\n`;
   }
 
-  if (analysis.brokenHomepage.length > 0) {
-    content += `REPOSITORIES WITH POTENTIALLY BROKEN HOMEPAGES:\n`;
-    content += `${"-".repeat(50)}\n`;
-    analysis.brokenHomepage.forEach((repo) => {
-      content += `- ${repo.name}\n`;
-      content += `  URL: ${repo.html_url}\n`;
-      content += `  Current Homepage: ${repo.homepage}\n`;
-      content += `  Description: ${repo.description || "No description"}\n\n`;
+  if (analysis.health && analysis.health.length > 0) {
+    content += `HEALTH LEADERBOARD (average ${averageHealthScore(
+      analysis.health
+    )}/100):\n`;
+    content += `${"-".repeat(40)}\n`;
+    analysis.health.forEach((entry, index) => {
+      const gaps = describeHealthGaps(entry);
+      content += `${index + 1}. ${entry.repo.name}: ${entry.score}/100${
+        gaps ? ` (needs: ${gaps})` : ""
+      }\n`;
     });
+    content += `\n`;
+  }
+
+  return content;
+}
+
+/**
+ * Star/fork totals and language breakdown, most used language first
+ */
+export function summarizeRepositories(repos: GitHubRepository[]): {
+  totalStars: number;
+  totalForks: number;
+  languages: Array<{ language: string; count: number }>;
+} {
+  const languageCounts = new Map<string, number>();
+  repos.forEach((repo) => {
+    const language = repo.language || "Not specified";
+    languageCounts.set(language, (languageCounts.get(language) || 0) + 1);
+  });
+
+  return {
+    totalStars: repos.reduce((sum, repo) => sum + repo.stargazers_count, 0),
+    totalForks: repos.reduce((sum, repo) => sum + repo.forks_count, 0),
+    languages: [...languageCounts.entries()]
+      .map(([language, count]) => ({ language, count }))
+      .sort(
+        (a, b) => b.count - a.count || a.language.localeCompare(b.language)
+      ),
+  };
+}
+
+function percentage(count: number, total: number): string {
+  return total === 0 ? "0%" : `${Math.round((count / total) * 100)}%`;
+}
+
+/**
+ * Escape text for a Markdown table cell
+ */
+function escapeMarkdown(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\|/g, "\\|")
+    .replace(/</g, "&lt;")
+    .replace(/\r?\n/g, " ");
+}
+
+/**
+ * Escape text for HTML content and attributes
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Whether a URL is safe to link: only http(s), so homepages such as
+ * `javascript:` URLs are shown as plain text
+ */
+function isLinkableUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return (
+      (protocol === "http:" || protocol === "https:") && !/[\s<>]/.test(value)
+    );
+  } catch {
+    return false;
+  }
+}
+
+function markdownHomepage(homepage: string): string {
+  return isLinkableUrl(homepage)
+    ? `<${homepage.replace(/\|/g, "\\|")}>`
+    : escapeMarkdown(homepage);
+}
+
+function htmlHomepage(homepage: string): string {
+  return isLinkableUrl(homepage)
+    ? `<a href="${escapeHtml(homepage)}">${escapeHtml(homepage)}</a>`
+    : escapeHtml(homepage);
+}
+
+function markdownTable(headers: string[], rows: string[][]): string {
+  let content = `| ${headers.join(" | ")} |\n`;
+  content += `| ${headers.map(() => "---").join(" | ")} |\n`;
+  rows.forEach((row) => {
+    content += `| ${row.join(" | ")} |\n`;
+  });
+  return content;
+}
+
+function htmlTable(headers: string[], rows: string[][]): string {
+  let content = `<table>\n<thead><tr>${headers
+    .map((h) => `<th>${escapeHtml(h)}</th>`)
+    .join("")}</tr></thead>\n<tbody>\n`;
+  rows.forEach((row) => {
+    content += `<tr>${row.map((cell) => `<td>${cell}</td>`).join("")}</tr>\n`;
+  });
+  content += `</tbody>\n</table>\n`;
+  return content;
+}
+
+function htmlDocument(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2rem; color: #24292f; }
+table { border-collapse: collapse; margin-bottom: 1.5rem; }
+th, td { border: 1px solid #d0d7de; padding: 6px 12px; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+a { color: #0969da; }
+</style>
+</head>
+<body>
+${body}</body>
+</html>
+`;
+}
+
+/**
+ * Emoji markers for private, archived, fork and template repositories
+ */
+function repositoryBadges(repo: GitHubRepository): string {
+  let badges = "";
+  if (repo.private) badges += " 🔒";
+  if (repo.archived) badges += " 📦";
+  if (repo.fork) badges += " 🍴";
+  if (repo.is_template) badges += " 📄";
+  return badges;
+}
+
+/**
+ * Format repositories as Markdown, suitable for wikis and profile READMEs
+ */
+export function formatAsMarkdown(
+  repos: GitHubRepository[],
+  username: string,
+  health?: HealthScore[]
+): string {
+  const summary = summarizeRepositories(repos);
+  const scores = healthById(health);
+  const publicCount = repos.filter((repo) => !repo.private).length;
+
+  let content = `# GitHub Repositories: [${username}](https://github.com/${username})\n\n`;
+  content += markdownTable(
+    [
+      "Repositories",
+      "Public",
+      "Private",
+      "Stars",
+      "Forks",
+      ...(health ? ["Average Health"] : []),
+    ],
+    [
+      [
+        String(repos.length),
+        String(publicCount),
+        String(repos.length - publicCount),
+        String(summary.totalStars),
+        String(summary.totalForks),
+        ...(health ? [`${averageHealthScore(health)}/100`] : []),
+      ],
+    ]
+  );
+
+  content += `\n## Languages\n\n`;
+  content += markdownTable(
+    ["Language", "Repositories", "Share"],
+    summary.languages.map(({ language, count }) => [
+      escapeMarkdown(language),
+      String(count),
+      percentage(count, repos.length),
+    ])
+  );
+
+  content += `\n## Repositories\n\n`;
+  content += markdownTable(
+    [
+      "Name",
+      "Description",
+      "Language",
+      "Stars",
+      "Forks",
+      "Open Issues",
+      "Topics",
+      "License",
+      "Homepage",
+      "Updated",
+      ...(health ? ["Health"] : []),
+    ],
+    repos.map((repo) => [
+      `[${escapeMarkdown(repo.name)}](${repo.html_url})${repositoryBadges(
+        repo
+      )}`,
+      escapeMarkdown(repo.description || ""),
+      escapeMarkdown(repo.language || ""),
+      String(repo.stargazers_count),
+      String(repo.forks_count),
+      String(repo.open_issues_count),
+      getTopics(repo)
+        .map((topic) => `\`${topic}\``)
+        .join(" "),
+      escapeMarkdown(getLicense(repo) || ""),
+      repo.homepage ? markdownHomepage(repo.homepage) : "",
+      repo.updated_at.slice(0, 10),
+      ...(health ? [String(scores.get(repo.id)?.score ?? "")] : []),
+    ])
+  );
+
+  return content;
+}
+
+/**
+ * Format repositories as a standalone HTML page
+ */
+export function formatAsHtml(
+  repos: GitHubRepository[],
+  username: string,
+  health?: HealthScore[]
+): string {
+  const summary = summarizeRepositories(repos);
+  const scores = healthById(health);
+  const publicCount = repos.filter((repo) => !repo.private).length;
+  const profileUrl = `https://github.com/${username}`;
+
+  let body = `<h1>GitHub Repositories: <a href="${escapeHtml(
+    profileUrl
+  )}">${escapeHtml(username)}</a></h1>\n`;
+  body += htmlTable(
+    [
+      "Repositories",
+      "Public",
+      "Private",
+      "Stars",
+      "Forks",
+      ...(health ? ["Average Health"] : []),
+    ],
+    [
+      [
+        String(repos.length),
+        String(publicCount),
+        String(repos.length - publicCount),
+        String(summary.totalStars),
+        String(summary.totalForks),
+        ...(health ? [`${averageHealthScore(health)}/100`] : []),
+      ],
+    ]
+  );
+
+  body += `<h2>Languages</h2>\n`;
+  body += htmlTable(
+    ["Language", "Repositories", "Share"],
+    summary.languages.map(({ language, count }) => [
+      escapeHtml(language),
+      String(count),
+      percentage(count, repos.length),
+    ])
+  );
+
+  body += `<h2>Repositories</h2>\n`;
+  body += htmlTable(
+    [
+      "Name",
+      "Description",
+      "Language",
+      "Stars",
+      "Forks",
+      "Open Issues",
+      "Topics",
+      "License",
+      "Homepage",
+      "Updated",
+      ...(health ? ["Health"] : []),
+    ],
+    repos.map((repo) => [
+      `<a href="${escapeHtml(repo.html_url)}">${escapeHtml(
+        repo.name
+      )}</a>${repositoryBadges(repo)}`,
+      escapeHtml(repo.description || ""),
+      escapeHtml(repo.language || ""),
+      String(repo.stargazers_count),
+      String(repo.forks_count),
+      String(repo.open_issues_count),
+      escapeHtml(getTopics(repo).join(", ")),
+      escapeHtml(getLicense(repo) || ""),
+      repo.homepage ? htmlHomepage(repo.homepage) : "",
+      repo.updated_at.slice(0, 10),
+      ...(health ? [String(scores.get(repo.id)?.score ?? "")] : []),
+    ])
+  );
+
+  return htmlDocument(`GitHub Repositories: ${username}`, body);
+}
+
+/**
+ * Format analysis report as Markdown
+ */
+export function formatAnalysisReportMarkdown(
+  repos: GitHubRepository[],
+  analysis: RepositoryAnalysis,
+  username: string
+): string {
+  let content = `# Repository Analysis Report\n\n`;
+  content += `- **GitHub Profile:** [${username}](https://github.com/${username})\n`;
+  content += `- **Total Repositories:** ${repos.length}\n`;
+  content += `- **Analysis Date:** ${new Date().toISOString()}\n\n`;
+
+  content += `## Summary\n\n`;
+  content += markdownTable(
+    ["Rule", "Severity", "Repositories"],
+    analysis.results.map(({ rule, repositories }) => [
+      `${escapeMarkdown(rule.title)} (\`${rule.id}\`)`,
+      rule.severity,
+      String(repositories.length),
+    ])
+  );
+
+  analysis.results.forEach(({ rule, repositories }) => {
+    if (repositories.length === 0) return;
+
+    content += `\n## ${escapeMarkdown(rule.title)}\n\n`;
+    content += markdownTable(
+      ["Repository", "Description", "Language", "Stars", "Details"],
+      repositories.map((repo) => [
+        `[${escapeMarkdown(repo.name)}](${repo.html_url})`,
+        escapeMarkdown(repo.description || ""),
+        escapeMarkdown(repo.language || ""),
+        String(repo.stargazers_count),
+        rule.describe
+          ? escapeMarkdown(rule.describe(repo, analysis.context))
+          : "",
+      ])
+    );
+  });
+
+  const { communityFiles } = analysis.context;
+  if (communityFiles.size > 0) {
+    content += `\n## Community File Coverage\n\n`;
+    content += markdownTable(
+      ["File", "Repositories", "Share"],
+      summarizeCommunityFiles(communityFiles).map(({ label, count }) => [
+        label,
+        String(count),
+        percentage(count, communityFiles.size),
+      ])
+    );
+  }
+
+  if (analysis.health && analysis.health.length > 0) {
+    content += `\n## Health Leaderboard\n\n`;
+    content += `Average health score: **${averageHealthScore(
+      analysis.health
+    )}/100**\n\n`;
+    content += markdownTable(
+      ["Rank", "Repository", "Score", "Needs"],
+      analysis.health.map((entry, index) => [
+        String(index + 1),
+        `[${escapeMarkdown(entry.repo.name)}](${entry.repo.html_url})`,
+        String(entry.score),
+        escapeMarkdown(describeHealthGaps(entry)),
+      ])
+    );
+  }
+
+  return content;
+}
+
+/**
+ * Format analysis report as a standalone HTML page
+ */
+export function formatAnalysisReportHtml(
+  repos: GitHubRepository[],
+  analysis: RepositoryAnalysis,
+  username: string
+): string {
+  const profileUrl = `https://github.com/${username}`;
+
+  let body = `<h1>Repository Analysis Report</h1>\n`;
+  body += `<p>GitHub Profile: <a href="${escapeHtml(profileUrl)}">${escapeHtml(
+    username
+  )}</a><br>\n`;
+  body += `Total Repositories: ${repos.length}<br>\n`;
+  body += `Analysis Date: ${new Date().toISOString()}</p>\n`;
+
+  body += `<h2>Summary</h2>\n`;
+  body += htmlTable(
+    ["Rule", "Severity", "Repositories"],
+    analysis.results.map(({ rule, repositories }) => [
+      `${escapeHtml(rule.title)} (<code>${escapeHtml(rule.id)}</code>)`,
+      rule.severity,
+      String(repositories.length),
+    ])
+  );
+
+  analysis.results.forEach(({ rule, repositories }) => {
+    if (repositories.length === 0) return;
+
+    body += `<h2>${escapeHtml(rule.title)}</h2>\n`;
+    body += htmlTable(
+      ["Repository", "Description", "Language", "Stars", "Details"],
+      repositories.map((repo) => [
+        `<a href="${escapeHtml(repo.html_url)}">${escapeHtml(repo.name)}</a>`,
+        escapeHtml(repo.description || ""),
+        escapeHtml(repo.language || ""),
+        String(repo.stargazers_count),
+        rule.describe ? escapeHtml(rule.describe(repo, analysis.context)) : "",
+      ])
+    );
+  });
+
+  const { communityFiles } = analysis.context;
+  if (communityFiles.size > 0) {
+    body += `<h2>Community File Coverage</h2>\n`;
+    body += htmlTable(
+      ["File", "Repositories", "Share"],
+      summarizeCommunityFiles(communityFiles).map(({ label, count }) => [
+        label,
+        String(count),
+        percentage(count, communityFiles.size),
+      ])
+    );
+  }
+
+  if (analysis.health && analysis.health.length > 0) {
+    body += `<h2>Health Leaderboard</h2>\n`;
+    body += `<p>Average health score: <strong>${averageHealthScore(
+      analysis.health
+    )}/100</strong></p>\n`;
+    body += htmlTable(
+      ["Rank", "Repository", "Score", "Needs"],
+      analysis.health.map((entry, index) => [
+        String(index + 1),
+        `<a href="${escapeHtml(entry.repo.html_url)}">${escapeHtml(
+          entry.repo.name
+        )}</a>`,
+        String(entry.score),
+        escapeHtml(describeHealthGaps(entry)),
+      ])
+    );
+  }
+
+  return htmlDocument("Repository Analysis Report", body);
+}
+
+/**
+ * Format a single metadata value for before/after displays
+ */
+export function formatFieldValue(value: unknown): string {
+  if (
+    value === null ||
+    value === undefined ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  ) {
+    return "(none)";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.join(", ")}]`;
+  }
+  return typeof value === "string" ? `"${value}"` : String(value);
+}
+
+/**
+ * Format a recorded update as a before/after diff
+ */
+export function formatUpdateDiff(entry: DryRunEntry): string {
+  let content = `~ ${entry.repo}\n`;
+
+  for (const [field, value] of Object.entries(entry.after)) {
+    const before = (entry.before as Record<string, unknown>)[field];
+    content += `    ${field}: ${formatFieldValue(before)} → ${formatFieldValue(
+      value
+    )}\n`;
   }
 
   return content;
@@ -195,7 +736,13 @@ export function getOutputFormat(filename: string): OutputFormat {
     case "json":
       return "json";
     case "csv":
-      return "csv" as OutputFormat; // We'll add this to types
+      return "csv";
+    case "md":
+    case "markdown":
+      return "md";
+    case "html":
+    case "htm":
+      return "html";
     case "txt":
     default:
       return "txt";
@@ -204,12 +751,25 @@ export function getOutputFormat(filename: string): OutputFormat {
 
 /**
  * Write repositories to file with proper formatting
+ * @param options.filter Only write repositories matching this filter expression
  */
 export async function writeRepositoriesToFile(
   repos: GitHubRepository[],
   username: string,
-  filename: string
+  filename: string,
+  options: {
+    csv?: CsvOptions;
+    filter?: RepositoryQuery;
+    health?: HealthScore[];
+  } = {}
 ): Promise<void> {
+  const { filter } = options;
+  let { health } = options;
+  if (filter) {
+    repos = repos.filter((repo) => matchesQuery(repo, filter));
+    health = health?.filter((entry) => matchesQuery(entry.repo, filter));
+  }
+
   const s = spinner();
   s.start(`Writing repositories to ${filename}...`);
 
@@ -219,14 +779,20 @@ export async function writeRepositoriesToFile(
 
     switch (format) {
       case "json":
-        content = formatAsJson(repos, username);
+        content = formatAsJson(repos, username, health);
         break;
       case "csv":
-        content = formatAsCsv(repos, username);
+        content = formatAsCsv(repos, options.csv, health);
+        break;
+      case "md":
+        content = formatAsMarkdown(repos, username, health);
+        break;
+      case "html":
+        content = formatAsHtml(repos, username, health);
         break;
       case "txt":
       default:
-        content = formatAsText(repos, username);
+        content = formatAsText(repos, username, health);
         break;
     }
 
@@ -247,11 +813,7 @@ export async function writeRepositoriesToFile(
  */
 export async function writeAnalysisToFile(
   repos: GitHubRepository[],
-  analysis: {
-    missingDescription: GitHubRepository[];
-    missingHomepage: GitHubRepository[];
-    brokenHomepage: GitHubRepository[];
-  },
+  analysis: RepositoryAnalysis,
   username: string,
   filename: string
 ): Promise<void> {
@@ -259,7 +821,13 @@ export async function writeAnalysisToFile(
   s.start(`Writing analysis report to ${filename}...`);
 
   try {
-    const content = formatAnalysisReport(repos, analysis, username);
+    const format = getOutputFormat(filename);
+    const content =
+      format === "md"
+        ? formatAnalysisReportMarkdown(repos, analysis, username)
+        : format === "html"
+        ? formatAnalysisReportHtml(repos, analysis, username)
+        : formatAnalysisReport(repos, analysis, username);
     await fs.writeFile(filename, content, "utf8");
     s.stop(`✅ Analysis report written to ${filename}`);
   } catch (error) {
@@ -267,3 +835,166 @@ export async function writeAnalysisToFile(
     throw error;
   }
 }
+
+/**
+ * Write dry-run update payloads to a JSON file
+ */
+export async function writeDryRunToFile(
+  entries: DryRunEntry[],
+  filename: string
+): Promise<void> {
+  const s = spinner();
+  s.start(`Writing dry-run results to ${filename}...`);
+
+  try {
+    const content = JSON.stringify(
+      {
+        generated_at: new Date().toISOString(),
+        total_updates: entries.length,
+        updates: entries,
+      },
+      null,
+      2
+    );
+    await fs.writeFile(filename, content, "utf8");
+    s.stop(
+      `✅ Dry-run results for ${entries.length} updates written to ${filename}`
+    );
+  } catch (error) {
+    s.stop(`❌ Failed to write dry-run results to ${filename}`);
+    throw error;
+  }
+}
+
+/**
+ * Format the outcome of an archive/unarchive batch as plain text
+ */
+export function formatLifecycleReport(
+  entries: LifecycleReportEntry[],
+  dryRun = false
+): string {
+  const succeeded = entries.filter((e) => e.success);
+  const failed = entries.filter((e) => !e.success);
+
+  let content = `Repository Lifecycle Report${dryRun ? " (dry run)" : ""}\n`;
+  content += `==========================================\n\n`;
+  content += `Generated: ${new Date().toISOString()}\n`;
+  content += `${dryRun ? "Would succeed" : "Succeeded"}: ${succeeded.length}\n`;
+  content += `Failed: ${failed.length}\n\n`;
+
+  entries.forEach((entry) => {
+    const outcome = entry.success
+      ? dryRun
+        ? `would ${entry.action}`
+        : `${entry.action}d`
+      : `failed to ${entry.action}: ${entry.error}`;
+    content += `- ${entry.repo}: ${outcome} (last push: ${
+      entry.lastPush ? entry.lastPush.slice(0, 10) : "never"
+    })\n`;
+  });
+
+  return content;
+}
+
+/**
+ * Write an archive/unarchive report as JSON (.json) or plain text
+ */
+export async function writeLifecycleReportToFile(
+  entries: LifecycleReportEntry[],
+  filename: string,
+  dryRun = false
+): Promise<void> {
+  const s = spinner();
+  s.start(`Writing lifecycle report to ${filename}...`);
+
+  try {
+    const content =
+      getOutputFormat(filename) === "json"
+        ? JSON.stringify(
+            {
+              generated_at: new Date().toISOString(),
+              dry_run: dryRun,
+              repositories: entries,
+            },
+            null,
+            2
+          )
+        : formatLifecycleReport(entries, dryRun);
+    await fs.writeFile(filename, content, "utf8");
+    s.stop(`✅ Lifecycle report written to ${filename}`);
+  } catch (error) {
+    s.stop(`❌ Failed to write lifecycle report to ${filename}`);
+    throw error;
+  }
+}
+
+/**
+ * Format old → new repository locations as plain text
+ */
+export function formatRepositoryMappings(
+  mappings: RepositoryMapping[],
+  dryRun = false
+): string {
+  let content = `Repository Mappings${dryRun ? " (dry run)" : ""}\n`;
+  content += `==========================================\n\n`;
+  content += `Generated: ${new Date().toISOString()}\n\n`;
+
+  mappings.forEach((mapping) => {
+    content += `${mapping.from_url} → ${mapping.to_url}`;
+    content += mapping.success
+      ? "\n"
+      : ` (${mapping.action} failed: ${mapping.error})\n`;
+  });
+
+  return content;
+}
+
+/**
+ * Write rename/transfer mappings as JSON (.json), CSV (.csv) or plain text
+ */
+export async function writeRepositoryMappingsToFile(
+  mappings: RepositoryMapping[],
+  filename: string,
+  dryRun = false
+): Promise<void> {
+  const s = spinner();
+  s.start(`Writing repository mappings to ${filename}...`);
+
+  try {
+    let content: string;
+    switch (getOutputFormat(filename)) {
+      case "json":
+        content = JSON.stringify(
+          {
+            generated_at: new Date().toISOString(),
+            dry_run: dryRun,
+            mappings,
+          },
+          null,
+          2
+        );
+        break;
+      case "csv":
+        content = toCsv([
+          ["action", "from", "to", "from_url", "to_url", "success", "error"],
+          ...mappings.map((m) => [
+            m.action,
+            m.from,
+            m.to,
+            m.from_url,
+            m.to_url,
+            String(m.success),
+            m.error ?? "",
+          ]),
+        ]);
+        break;
+      default:
+        content = formatRepositoryMappings(mappings, dryRun);
+    }
+    await fs.writeFile(filename, content, "utf8");
+    s.stop(`✅ ${mappings.length} repository mappings written to ${filename}`);
+  } catch (error) {
+    s.stop(`❌ Failed to write repository mappings to ${filename}`);
+    throw error;
+  }
+}
@@ -1,28 +1,251 @@
-import { Octokit } from "octokit";
+import { Octokit, RequestError } from "octokit";
+import { setTimeout as sleep } from "timers/promises";
 import { spinner } from "@clack/prompts";
 import {
   GitHubRepository,
   GitHubUser,
+  GitHubOrganization,
   SortOption,
+  FetchRepositoriesOptions,
   RepositoryUpdateData,
   AuthenticationResult,
+  RepositoryAnalysis,
+  DryRunEntry,
+  AnalysisRule,
+  AnalysisContext,
+  BranchProtectionStatus,
+  ProtectionProfile,
+  LabelSet,
+  GitHubLabel,
+  GitHubMilestone,
+  SyncChange,
+  RepositorySyncPlan,
+  CommunityFiles,
+  HealthScore,
+  ScaffoldPlanEntry,
+  DescriptionSuggestion,
 } from "./types.js";
+import { formatUpdateDiff } from "./formatters.js";
+import { RepositoryJournal } from "./journal.js";
+import { ResponseCache } from "./response-cache.js";
+import { runWorkerPool } from "./worker-pool.js";
+import {
+  isMalformedHomepage,
+  checkRepositoryHomepages,
+} from "./homepage-check.js";
+import { runAnalysisRules, getAnalysisRules } from "./analysis-rules.js";
+import {
+  parseBranchProtection,
+  unprotectedBranch,
+  toBranchProtectionParams,
+} from "./branch-protection.js";
+import { planLabelChanges, planMilestoneChanges } from "./label-sync.js";
+import { scoreRepositories, averageHealthScore } from "./health.js";
+import {
+  findCommunityFiles,
+  emptyCommunityFiles,
+  missingCommunityFiles,
+  parseCommunityProfile,
+} from "./community-files.js";
+import { suggestDescription } from "./description-suggestions.js";
+
+export const DEFAULT_CONCURRENCY = 4;
+/** Retries octokit's throttling plugin makes after hitting a rate limit */
+const RATE_LIMIT_RETRIES = 3;
+const PAGE_SIZE = 100;
+
+/**
+ * Successful community file checks keyed by repository ID
+ */
+function communityFilesById(
+  checks: Array<{ repo: GitHubRepository; files?: CommunityFiles }>
+): Map<number, CommunityFiles> {
+  return new Map(
+    checks
+      .filter(({ files }) => files !== undefined)
+      .map(({ repo, files }) => [repo.id, files!])
+  );
+}
 
 export class GitHubService {
   private octokit: Octokit;
+  private dryRun: boolean;
+  private dryRunEntries: DryRunEntry[] = [];
+  private journal?: RepositoryJournal;
+  private concurrency: number;
+  private rateLimitResumeAt = 0;
+  private rateLimitListeners: Array<(seconds: number) => void> = [];
+  private offline: boolean;
+  private refresh: boolean;
+  private cacheHits = 0;
 
   /**
    * Initialize GitHub service with optional authentication
    * @param token GitHub Personal Access Token with 'repo' scope required for:
    *              - Accessing private repositories
    *              - Editing repository metadata (description, homepage, privacy, features)
+   * @param options.dryRun Record and print updates instead of sending them
+   * @param options.journal Record before/after values of every applied update
+   * @param options.concurrency Maximum updates in flight during batch updates
+   * @param options.cache Store GET responses and revalidate them with conditional requests
+   * @param options.offline Serve GET requests only from the cache and refuse all others
+   * @param options.refresh Ignore cached responses, fetching and storing fresh ones
    */
-  constructor(token?: string) {
+  constructor(
+    token?: string,
+    options: {
+      dryRun?: boolean;
+      journal?: RepositoryJournal;
+      concurrency?: number;
+      cache?: ResponseCache;
+      offline?: boolean;
+      refresh?: boolean;
+    } = {}
+  ) {
     this.octokit = new Octokit({
       auth: token,
+      throttle: {
+        onRateLimit: (
+          retryAfter: number,
+          _options: unknown,
+          _octokit: unknown,
+          retryCount: number
+        ) => this.handleRateLimit(retryAfter, retryCount),
+        onSecondaryRateLimit: (
+          retryAfter: number,
+          _options: unknown,
+          _octokit: unknown,
+          retryCount: number
+        ) => this.handleRateLimit(retryAfter, retryCount),
+      },
+    });
+    this.dryRun = options.dryRun ?? false;
+    this.journal = options.journal;
+    this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    this.offline = options.offline ?? false;
+    this.refresh = options.refresh ?? false;
+
+    if (options.cache) {
+      this.useCache(options.cache, token);
+    }
+  }
+
+  /**
+   * Route GET requests through the response cache. Cached responses are
+   * revalidated with If-None-Match/If-Modified-Since, and a 304 reuses the
+   * cached body without counting against the rate limit.
+   */
+  private useCache(cache: ResponseCache, token?: string): void {
+    this.octokit.hook.wrap("request", async (request, options) => {
+      const { url } = this.octokit.request.endpoint.parse(options);
+
+      if (options.method !== "GET") {
+        if (this.offline) {
+          throw new Error(
+            `Cannot send ${options.method} ${url} in offline mode`
+          );
+        }
+        return request(options);
+      }
+
+      const key = ResponseCache.key(url, token);
+      const cached = this.refresh ? undefined : await cache.get(key);
+
+      if (this.offline) {
+        if (!cached) {
+          throw new Error(
+            `GET ${url} is not cached; run once without --offline to cache it`
+          );
+        }
+        this.cacheHits++;
+        return {
+          status: 200,
+          url,
+          headers: cached.link ? { link: cached.link } : {},
+          data: cached.data,
+        };
+      }
+
+      if (cached?.etag) {
+        options.headers["if-none-match"] = cached.etag;
+      } else if (cached?.lastModified) {
+        options.headers["if-modified-since"] = cached.lastModified;
+      }
+
+      let response;
+      try {
+        response = await request(options);
+      } catch (error) {
+        if (cached && error instanceof RequestError && error.status === 304) {
+          this.cacheHits++;
+          return {
+            status: 200,
+            url,
+            headers: { ...error.response?.headers, link: cached.link },
+            data: cached.data,
+          };
+        }
+        throw error;
+      }
+
+      const { etag, link } = response.headers;
+      const lastModified = response.headers["last-modified"];
+      if (etag || lastModified) {
+        try {
+          await cache.set(key, {
+            url,
+            etag,
+            lastModified,
+            link,
+            storedAt: new Date().toISOString(),
+            data: response.data,
+          });
+        } catch (error) {
+          console.warn(
+            `⚠️  Warning: Failed to cache ${url} in ${cache.dir}: ${
+              error instanceof Error ? error.message : error
+            }`
+          );
+        }
+      }
+      return response;
     });
   }
 
+  /**
+   * Whether updates are only being recorded
+   */
+  get isDryRun(): boolean {
+    return this.dryRun;
+  }
+
+  /**
+   * Updates recorded so far in dry-run mode
+   */
+  getDryRunEntries(): DryRunEntry[] {
+    return [...this.dryRunEntries];
+  }
+
+  /**
+   * Current values of the fields an update would touch
+   */
+  private pickCurrentValues(
+    repo: GitHubRepository,
+    updateData: RepositoryUpdateData
+  ): RepositoryUpdateData {
+    const current: RepositoryUpdateData = {};
+    const source = repo as unknown as Record<string, unknown>;
+
+    for (const key of Object.keys(updateData)) {
+      const value = source[key];
+      // Unset text fields come back as null; "" clears them on update
+      (current as Record<string, unknown>)[key] =
+        key === "topics" ? value ?? [] : value === null ? "" : value;
+    }
+
+    return current;
+  }
+
   /**
    * Authenticate and get user information
    */
@@ -56,52 +279,132 @@ export class GitHubService {
   }
 
   /**
-   * Fetch repositories for authenticated user or specific user
+   * List organizations the authenticated user belongs to
+   */
+  async listOrganizations(): Promise<GitHubOrganization[]> {
+    const orgs = await this.octokit.paginate(
+      this.octokit.rest.orgs.listForAuthenticatedUser,
+      { per_page: 100 }
+    );
+    return orgs as GitHubOrganization[];
+  }
+
+  /**
+   * Page through the listing endpoint matching the requested owner
+   */
+  private listRepositoryPages(
+    username: string,
+    isAuthenticated: boolean,
+    sort: SortOption,
+    direction: "asc" | "desc",
+    org?: string
+  ): AsyncIterable<{ data: unknown[]; headers: { link?: string } }> {
+    if (org) {
+      // Fetch organization repositories (private ones too when the token allows)
+      return this.octokit.paginate.iterator(
+        this.octokit.rest.repos.listForOrg,
+        {
+          org,
+          per_page: 100,
+          sort,
+          direction,
+          type: "all",
+        }
+      );
+    }
+
+    if (isAuthenticated) {
+      // Fetch authenticated user's repositories (including private)
+      return this.octokit.paginate.iterator(
+        this.octokit.rest.repos.listForAuthenticatedUser,
+        {
+          per_page: 100,
+          sort,
+          direction,
+          type: "owner",
+        }
+      );
+    }
+
+    // Fetch public repositories for specified user
+    return this.octokit.paginate.iterator(this.octokit.rest.repos.listForUser, {
+      username,
+      per_page: 100,
+      sort,
+      direction,
+      type: "all",
+    });
+  }
+
+  /**
+   * Fetch repositories for authenticated user, specific user or organization
+   * @param options.maxCount Optional cap on the number of repositories returned;
+   *                         pagination stops as soon as it is reached
+   * @param options.org List this organization's repositories instead of the user's
    */
   async fetchRepositories(
     username: string,
     isAuthenticated: boolean,
-    sort: SortOption = "updated"
+    options: FetchRepositoriesOptions = {}
   ): Promise<GitHubRepository[]> {
+    const { sort = "updated", direction = "desc", maxCount, org } = options;
+    const hitsBefore = this.cacheHits;
     const s = spinner();
     s.start("Fetching repositories...");
 
     try {
-      let repos: GitHubRepository[];
-
-      if (isAuthenticated) {
-        // Fetch authenticated user's repositories (including private)
-        const { data } = await this.octokit.rest.repos.listForAuthenticatedUser(
-          {
-            per_page: 100,
-            sort,
-            direction: "desc",
-            type: "owner",
-          }
+      const repos: GitHubRepository[] = [];
+      const iterator = this.listRepositoryPages(
+        username,
+        isAuthenticated,
+        sort,
+        direction,
+        org
+      );
+
+      let page = 0;
+      let truncated = false;
+      for await (const { data, headers } of iterator) {
+        page++;
+        repos.push(...(data as GitHubRepository[]));
+        s.message(
+          `Fetching repositories... page ${page} (${repos.length} so far)`
         );
-        repos = data as GitHubRepository[];
-      } else {
-        // Fetch public repositories for specified user
-        const { data } = await this.octokit.rest.repos.listForUser({
-          username,
-          per_page: 100,
-          sort,
-          direction: "desc",
-          type: "all",
-        });
-        repos = data as GitHubRepository[];
+
+        if (maxCount !== undefined && repos.length >= maxCount) {
+          // Only note the limit when it actually left repositories out
+          truncated =
+            repos.length > maxCount || /rel="next"/.test(headers.link ?? "");
+          break;
+        }
       }
 
-      s.stop("Repositories fetched successfully!");
+      if (maxCount !== undefined && repos.length > maxCount) {
+        repos.length = maxCount;
+      }
+
+      const cachedPages = this.cacheHits - hitsBefore;
+      s.stop(
+        `Repositories fetched successfully! (${page} page${
+          page === 1 ? "" : "s"
+        }${cachedPages > 0 ? `, ${cachedPages} from cache` : ""})`
+      );
 
       const publicCount = repos.filter((repo) => !repo.private).length;
       const privateCount = repos.length - publicCount;
 
-      const repoType = isAuthenticated
+      const repoType = org
+        ? "(organization)"
+        : isAuthenticated
         ? "(including private)"
         : "(public only)";
+      const limitNote = truncated ? ` (limited to ${maxCount})` : "";
       console.log(
-        `\n📊 Found ${repos.length} repositories ${repoType} - ${publicCount} public, ${privateCount} private for ${username}`
+        `\n📊 Found ${
+          repos.length
+        } repositories ${repoType}${limitNote} - ${publicCount} public, ${privateCount} private for ${
+          org || username
+        }`
       );
 
       return repos;
@@ -111,6 +414,177 @@ export class GitHubService {
     }
   }
 
+  /**
+   * Pause until the rate limit resets when the last response left no headroom
+   */
+  private async waitForRateLimit(
+    onWait?: (seconds: number) => void
+  ): Promise<void> {
+    const waitMs = this.rateLimitResumeAt - Date.now();
+    if (waitMs > 0) {
+      onWait?.(Math.ceil(waitMs / 1000));
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * Remember when to resume if the primary rate limit is nearly exhausted
+   */
+  private trackRateLimit(headers: Record<string, unknown>): void {
+    const remaining = Number(headers["x-ratelimit-remaining"]);
+    const reset = Number(headers["x-ratelimit-reset"]);
+
+    if (!isNaN(remaining) && !isNaN(reset) && remaining <= this.concurrency) {
+      this.rateLimitResumeAt = Math.max(this.rateLimitResumeAt, reset * 1000);
+    }
+  }
+
+  /**
+   * Throttling plugin callback for primary and secondary rate limits: pause
+   * other requests too, report the wait to requests in flight and retry a
+   * few times before giving up
+   */
+  private handleRateLimit(retryAfter: number, retryCount: number): boolean {
+    if (retryCount >= RATE_LIMIT_RETRIES) {
+      return false;
+    }
+    this.rateLimitResumeAt = Math.max(
+      this.rateLimitResumeAt,
+      Date.now() + retryAfter * 1000
+    );
+    this.rateLimitListeners.forEach((onWait) => onWait(retryAfter));
+    return true;
+  }
+
+  /**
+   * Send a request, first waiting out a nearly exhausted rate limit. Retries
+   * after 403/429 responses are left to octokit's throttling and retry
+   * plugins, which report waits through `onWait`.
+   */
+  private async requestWithBackoff<T>(
+    request: () => Promise<{ data: T; headers: object }>,
+    onWait?: (seconds: number) => void
+  ): Promise<{ data: T }> {
+    await this.waitForRateLimit(onWait);
+    if (onWait) this.rateLimitListeners.push(onWait);
+
+    try {
+      const response = await request();
+      this.trackRateLimit(response.headers as Record<string, unknown>);
+      return response;
+    } finally {
+      if (onWait) {
+        this.rateLimitListeners.splice(
+          this.rateLimitListeners.indexOf(onWait),
+          1
+        );
+      }
+    }
+  }
+
+  /**
+   * Fetch every page of a list endpoint, each page with rate-limit handling
+   */
+  private async listAllPages<T>(
+    request: (page: number) => Promise<{ data: T[]; headers: object }>
+  ): Promise<T[]> {
+    const items: T[] = [];
+    for (let page = 1; ; page++) {
+      const { data } = await this.requestWithBackoff(() => request(page));
+      items.push(...data);
+      if (data.length < PAGE_SIZE) return items;
+    }
+  }
+
+  /**
+   * Apply (or in dry-run mode, preview) one update without any progress output
+   */
+  private async applyUpdate(
+    owner: string,
+    repo: string,
+    updateData: RepositoryUpdateData,
+    batchId: string,
+    onWait?: (seconds: number) => void,
+    undoes?: string
+  ): Promise<{ repository: GitHubRepository; preview?: DryRunEntry }> {
+    const needsCurrent = this.dryRun || this.journal !== undefined;
+    const current = needsCurrent
+      ? ((
+          await this.requestWithBackoff(
+            () => this.octokit.rest.repos.get({ owner, repo }),
+            onWait
+          )
+        ).data as GitHubRepository)
+      : undefined;
+
+    if (this.dryRun && current) {
+      const preview: DryRunEntry = {
+        repo: `${owner}/${repo}`,
+        before: this.pickCurrentValues(current, updateData),
+        after: { ...updateData },
+      };
+      this.dryRunEntries.push(preview);
+      return {
+        repository: { ...current, ...updateData } as GitHubRepository,
+        preview,
+      };
+    }
+
+    // Topics are not part of the repository update payload and have their
+    // own replace-all endpoint. Each request is journaled as soon as it
+    // succeeds, capturing the values being replaced, so a failure in the
+    // second one leaves the first undoable.
+    const { topics, ...settings } = updateData;
+    let repository = current;
+
+    if (Object.keys(settings).length > 0 || !repository) {
+      const { data } = await this.requestWithBackoff(
+        () =>
+          Object.keys(settings).length > 0
+            ? this.octokit.rest.repos.update({ owner, repo, ...settings })
+            : this.octokit.rest.repos.get({ owner, repo }),
+        onWait
+      );
+      repository = data as GitHubRepository;
+
+      if (current && Object.keys(settings).length > 0) {
+        await this.recordUpdate(
+          batchId,
+          `${owner}/${repo}`,
+          this.pickCurrentValues(current, settings),
+          settings,
+          undoes
+        );
+      }
+    }
+
+    if (topics !== undefined) {
+      const name = settings.name ?? repo;
+      await this.requestWithBackoff(
+        () =>
+          this.octokit.rest.repos.replaceAllTopics({
+            owner,
+            repo: name,
+            names: topics,
+          }),
+        onWait
+      );
+      repository = { ...repository, topics };
+
+      if (current) {
+        await this.recordUpdate(
+          batchId,
+          `${owner}/${name}`,
+          this.pickCurrentValues(current, { topics }),
+          { topics },
+          undoes
+        );
+      }
+    }
+
+    return { repository };
+  }
+
   /**
    * Update repository metadata
    */
@@ -120,23 +594,71 @@ export class GitHubService {
     updateData: RepositoryUpdateData
   ): Promise<GitHubRepository> {
     const s = spinner();
-    s.start(`Updating repository ${owner}/${repo}...`);
+    const batchId = RepositoryJournal.newBatchId();
+    const onWait = (seconds: number) =>
+      s.message(`Rate limited, waiting ${seconds}s before ${owner}/${repo}...`);
+
+    s.start(
+      this.dryRun
+        ? `Previewing update for ${owner}/${repo}...`
+        : `Updating repository ${owner}/${repo}...`
+    );
 
     try {
-      const { data } = await this.octokit.rest.repos.update({
+      const { repository, preview } = await this.applyUpdate(
         owner,
         repo,
-        ...updateData,
-      });
+        updateData,
+        batchId,
+        onWait
+      );
 
-      s.stop(`✅ Successfully updated ${owner}/${repo}`);
-      return data as GitHubRepository;
+      if (preview) {
+        s.stop(`🧪 Dry run: ${owner}/${repo} was not changed`);
+        console.log(formatUpdateDiff(preview));
+      } else {
+        s.stop(`✅ Successfully updated ${owner}/${repo}`);
+        if (this.journal) {
+          console.log(
+            `↩️  Recorded as batch ${batchId} (undo with: github-cli undo ${batchId})`
+          );
+        }
+      }
+
+      return repository;
     } catch (error) {
-      s.stop(`❌ Failed to update ${owner}/${repo}`);
+      s.stop(
+        this.dryRun
+          ? `❌ Failed to preview ${owner}/${repo}`
+          : `❌ Failed to update ${owner}/${repo}`
+      );
       throw error;
     }
   }
 
+  /**
+   * Append an applied update to the journal without failing the update
+   */
+  private async recordUpdate(
+    batchId: string,
+    repo: string,
+    before: RepositoryUpdateData,
+    after: RepositoryUpdateData,
+    undoes?: string
+  ): Promise<void> {
+    if (!this.journal) return;
+
+    try {
+      await this.journal.record(batchId, repo, before, after, undoes);
+    } catch (error) {
+      console.warn(
+        `⚠️  Warning: Failed to record ${repo} in journal ${
+          this.journal.file
+        }: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
   /**
    * Get repository details
    */
@@ -153,98 +675,1060 @@ export class GitHubService {
   }
 
   /**
-   * Batch update multiple repositories
+   * Whether a repository exists under exactly this name; the redirect GitHub
+   * leaves behind after a rename or transfer does not count
+   */
+  async repositoryExists(owner: string, repo: string): Promise<boolean> {
+    try {
+      const { data } = await this.requestWithBackoff(() =>
+        this.octokit.rest.repos.get({ owner, repo })
+      );
+      return (
+        (data as GitHubRepository).full_name.toLowerCase() ===
+        `${owner}/${repo}`.toLowerCase()
+      );
+    } catch (error) {
+      if (error instanceof RequestError && error.status === 404) {
+        return false;
+      }
+      throw new Error(`Failed to check repository ${owner}/${repo}: ${error}`);
+    }
+  }
+
+  /**
+   * Transfer repositories to another user or organization. Transfers are not
+   * journaled: moving a repository back needs admin rights on the new owner.
+   */
+  async batchTransferRepositories(
+    transfers: Array<{ owner: string; repo: string; newOwner: string }>
+  ): Promise<Array<{ success: boolean; repo: string; error?: string }>> {
+    if (this.dryRun) {
+      transfers.forEach(({ owner, repo, newOwner }) =>
+        this.dryRunEntries.push({
+          repo: `${owner}/${repo}`,
+          action: "transfer",
+          before: { owner },
+          after: { owner: newOwner },
+        })
+      );
+      console.log(
+        `\n🧪 Dry run: ${transfers.length} repositories would be transferred`
+      );
+      return transfers.map(({ owner, repo }) => ({
+        success: true,
+        repo: `${owner}/${repo}`,
+      }));
+    }
+
+    console.log(`\n🚚 Transferring ${transfers.length} repositories...`);
+
+    let completed = 0;
+    const s = spinner();
+    const progress = () =>
+      `Transferring repositories... ${completed}/${transfers.length}`;
+    const onWait = (seconds: number) =>
+      s.message(`${progress()} - rate limited, waiting ${seconds}s`);
+
+    s.start(progress());
+
+    const results = await runWorkerPool(
+      transfers,
+      this.concurrency,
+      async ({
+        owner,
+        repo,
+        newOwner,
+      }): Promise<{ success: boolean; repo: string; error?: string }> => {
+        try {
+          await this.requestWithBackoff(
+            () =>
+              this.octokit.rest.repos.transfer({
+                owner,
+                repo,
+                new_owner: newOwner,
+              }),
+            onWait
+          );
+          return { success: true, repo: `${owner}/${repo}` };
+        } catch (error) {
+          return {
+            success: false,
+            repo: `${owner}/${repo}`,
+            error: error instanceof Error ? error.message : "Unknown error",
+          };
+        } finally {
+          completed++;
+          s.message(progress());
+        }
+      }
+    );
+
+    const successful = results.filter((r) => r.success).length;
+    s.stop(`Transferred ${successful} of ${transfers.length} repositories`);
+    console.log(
+      `\n📊 Transfer completed: ${successful} successful, ${
+        results.length - successful
+      } failed`
+    );
+
+    return results;
+  }
+
+  /**
+   * Batch update multiple repositories using a bounded pool of concurrent workers
+   * @param options.undoes Journal the updates as the undo of this batch
    */
   async batchUpdateRepositories(
     updates: Array<{
       owner: string;
       repo: string;
       data: RepositoryUpdateData;
-    }>
+    }>,
+    options: { undoes?: string } = {}
   ): Promise<Array<{ success: boolean; repo: string; error?: string }>> {
-    const results: Array<{ success: boolean; repo: string; error?: string }> =
-      [];
+    console.log(
+      `\n🔄 Starting batch update of ${updates.length} repositories...${
+        this.dryRun ? " (dry run)" : ""
+      }`
+    );
+
+    const batchId = RepositoryJournal.newBatchId();
+    const previews: Array<DryRunEntry | undefined> = [];
+    let completed = 0;
+    let failedSoFar = 0;
+
+    const s = spinner();
+    const progress = () =>
+      `${
+        this.dryRun ? "Previewing" : "Updating"
+      } repositories... ${completed}/${updates.length}${
+        failedSoFar > 0 ? ` (${failedSoFar} failed)` : ""
+      }`;
+    const onWait = (seconds: number) =>
+      s.message(`${progress()} - rate limited, waiting ${seconds}s`);
+
+    s.start(progress());
+
+    const results = await runWorkerPool(
+      updates,
+      this.concurrency,
+      async (
+        update,
+        index
+      ): Promise<{ success: boolean; repo: string; error?: string }> => {
+        const repoName = `${update.owner}/${update.repo}`;
+
+        try {
+          const { preview } = await this.applyUpdate(
+            update.owner,
+            update.repo,
+            update.data,
+            batchId,
+            onWait,
+            options.undoes
+          );
+          previews[index] = preview;
+          return { success: true, repo: repoName };
+        } catch (error) {
+          failedSoFar++;
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error";
+          return { success: false, repo: repoName, error: errorMessage };
+        } finally {
+          completed++;
+          s.message(progress());
+        }
+      }
+    );
+
+    const successful = results.filter((r) => r.success).length;
+    const failed = results.filter((r) => !r.success).length;
+
+    s.stop(
+      this.dryRun
+        ? `🧪 Previewed ${updates.length} repositories`
+        : `Updated ${successful} of ${updates.length} repositories`
+    );
+
+    previews.forEach((preview) => {
+      if (preview) console.log(formatUpdateDiff(preview));
+    });
 
     console.log(
-      `\n🔄 Starting batch update of ${updates.length} repositories...`
+      this.dryRun
+        ? `\n🧪 Dry run completed: ${successful} repositories would be updated, ${failed} failed`
+        : `\n📊 Batch update completed: ${successful} successful, ${failed} failed`
     );
 
-    for (const update of updates) {
+    if (this.journal && !this.dryRun && successful > 0) {
+      console.log(
+        `↩️  Recorded as batch ${batchId} (undo with: github-cli undo ${batchId})`
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Fetch the full details of unarchived repositories, which include settings
+   * such as merge methods that list responses leave out
+   */
+  async fetchRepositoryDetails(
+    repositories: GitHubRepository[],
+    onProgress?: (fetched: number, total: number) => void
+  ): Promise<GitHubRepository[]> {
+    const candidates = repositories.filter((repo) => !repo.archived);
+    let fetched = 0;
+
+    const details = await runWorkerPool(
+      candidates,
+      this.concurrency,
+      async (repo) => {
+        try {
+          const { data } = await this.requestWithBackoff(() =>
+            this.octokit.rest.repos.get({
+              owner: repo.owner.login,
+              repo: repo.name,
+            })
+          );
+          return data as GitHubRepository;
+        } catch {
+          // Rules fall back to the list data for this repository
+          return undefined;
+        } finally {
+          onProgress?.(++fetched, candidates.length);
+        }
+      }
+    );
+
+    return details.filter((repo): repo is GitHubRepository => !!repo);
+  }
+
+  /**
+   * Protection of one branch; GitHub answers 404 "Branch not protected" for
+   * branches without rules
+   */
+  async getBranchProtection(
+    owner: string,
+    repo: string,
+    branch: string
+  ): Promise<BranchProtectionStatus> {
+    try {
+      const { data } = await this.requestWithBackoff(() =>
+        this.octokit.rest.repos.getBranchProtection({ owner, repo, branch })
+      );
+      return parseBranchProtection(branch, data);
+    } catch (error) {
+      if (
+        error instanceof RequestError &&
+        error.status === 404 &&
+        /not protected/i.test(error.message)
+      ) {
+        return unprotectedBranch(branch);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch default branch protection for every unarchived repository; reading
+   * protection needs admin access, so failures are returned rather than thrown
+   */
+  async checkBranchProtection(
+    repositories: GitHubRepository[],
+    onProgress?: (checked: number, total: number) => void
+  ): Promise<
+    Array<{
+      repo: GitHubRepository;
+      result?: BranchProtectionStatus;
+      error?: string;
+    }>
+  > {
+    const candidates = repositories.filter((repo) => !repo.archived);
+    let checked = 0;
+
+    return runWorkerPool(candidates, this.concurrency, async (repo) => {
       try {
-        await this.updateRepository(update.owner, update.repo, update.data);
-        results.push({ success: true, repo: `${update.owner}/${update.repo}` });
+        return {
+          repo,
+          result: await this.getBranchProtection(
+            repo.owner.login,
+            repo.name,
+            repo.default_branch
+          ),
+        };
       } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : "Unknown error";
-        results.push({
-          success: false,
-          repo: `${update.owner}/${update.repo}`,
-          error: errorMessage,
-        });
+        return {
+          repo,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      } finally {
+        onProgress?.(++checked, candidates.length);
+      }
+    });
+  }
+
+  /**
+   * Names in a repository directory; empty repositories and missing
+   * directories have none
+   */
+  private async listDirectory(
+    owner: string,
+    repo: string,
+    path: string
+  ): Promise<Array<{ name: string; type: string }>> {
+    try {
+      const { data } = await this.requestWithBackoff(() =>
+        this.octokit.rest.repos.getContent({ owner, repo, path })
+      );
+      return Array.isArray(data) ? data : [];
+    } catch (error) {
+      if (error instanceof RequestError && error.status === 404) {
+        return [];
       }
+      throw error;
     }
+  }
 
-    const successful = results.filter((r) => r.success).length;
-    const failed = results.filter((r) => !r.success).length;
+  /**
+   * Files reported by the community profile, which is only available for
+   * public repositories
+   */
+  private async getCommunityProfile(
+    owner: string,
+    repo: string
+  ): Promise<CommunityFiles> {
+    try {
+      const { data } = await this.requestWithBackoff(() =>
+        this.octokit.rest.repos.getCommunityProfileMetrics({ owner, repo })
+      );
+      return parseCommunityProfile(data.files);
+    } catch (error) {
+      if (error instanceof RequestError && error.status === 404) {
+        return emptyCommunityFiles();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Look for README, LICENSE, CONTRIBUTING, CODE_OF_CONDUCT and SECURITY
+   * files. Public repositories start from the community profile; anything it
+   * does not report, including SECURITY, is looked up in the root listing and
+   * then in .github/ and docs/ when those exist.
+   */
+  async fetchCommunityFiles(
+    repositories: GitHubRepository[],
+    onProgress?: (checked: number, total: number) => void
+  ): Promise<
+    Array<{ repo: GitHubRepository; files?: CommunityFiles; error?: string }>
+  > {
+    let checked = 0;
+
+    return runWorkerPool(repositories, this.concurrency, async (repo) => {
+      const owner = repo.owner.login;
+      try {
+        const files = repo.private
+          ? emptyCommunityFiles()
+          : await this.getCommunityProfile(owner, repo.name);
+        const addFound = (listing: Array<{ name: string; type: string }>) => {
+          const found = findCommunityFiles(listing);
+          missingCommunityFiles(files).forEach((kind) => {
+            files[kind] = found[kind];
+          });
+        };
+
+        if (missingCommunityFiles(files).length > 0) {
+          const root = await this.listDirectory(owner, repo.name, "");
+          addFound(root);
+
+          for (const dir of [".github", "docs"]) {
+            if (missingCommunityFiles(files).length === 0) break;
+            if (root.some(({ name, type }) => name === dir && type === "dir")) {
+              addFound(await this.listDirectory(owner, repo.name, dir));
+            }
+          }
+        }
+
+        return { repo, files };
+      } catch (error) {
+        return {
+          repo,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      } finally {
+        onProgress?.(++checked, repositories.length);
+      }
+    });
+  }
+
+  /**
+   * Text of a file, or of the README GitHub shows when no path is given;
+   * undefined when there is none
+   */
+  private async getFileText(
+    owner: string,
+    repo: string,
+    path?: string
+  ): Promise<string | undefined> {
+    try {
+      const { data } = await this.requestWithBackoff(() =>
+        path === undefined
+          ? this.octokit.rest.repos.getReadme({ owner, repo })
+          : this.octokit.rest.repos.getContent({ owner, repo, path })
+      );
+      return !Array.isArray(data) && data.type === "file" && "content" in data
+        ? Buffer.from(data.content, "base64").toString("utf8")
+        : undefined;
+    } catch (error) {
+      if (error instanceof RequestError && error.status === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Suggest descriptions from each repository's README, package.json or
+   * pyproject.toml, or its language and topics. Repositories whose files
+   * cannot be read fall back to the language and topics.
+   */
+  async suggestDescriptions(
+    repositories: GitHubRepository[]
+  ): Promise<DescriptionSuggestion[]> {
+    const s = spinner();
+    s.start("Reading repository contents...");
+    let checked = 0;
+    const failed: Array<{ repo: GitHubRepository; error: string }> = [];
+
+    const suggestions = await runWorkerPool(
+      repositories,
+      this.concurrency,
+      async (repo) => {
+        try {
+          return await suggestDescription(repo, (path) =>
+            this.getFileText(repo.owner.login, repo.name, path)
+          );
+        } catch (error) {
+          failed.push({
+            repo,
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+          return suggestDescription(repo, async () => undefined);
+        } finally {
+          s.message(
+            `Reading repository contents... ${++checked}/${repositories.length}`
+          );
+        }
+      }
+    );
+
+    const found = suggestions.filter(
+      (suggestion): suggestion is DescriptionSuggestion => !!suggestion
+    );
+    s.stop(
+      `Suggested descriptions for ${found.length} of ${repositories.length} repositories`
+    );
+    failed.forEach(({ repo, error }) =>
+      console.warn(`⚠️  ${repo.name}: ${error}`)
+    );
+
+    return found;
+  }
+
+  /**
+   * Check the community files of repositories with progress output
+   */
+  async auditCommunityFiles(
+    repositories: GitHubRepository[]
+  ): Promise<Map<number, CommunityFiles>> {
+    const s = spinner();
+    s.start("Checking community files...");
+
+    const checks = await this.fetchCommunityFiles(
+      repositories,
+      (checked, total) =>
+        s.message(`Checking community files... ${checked}/${total}`)
+    );
+    const failed = checks.filter(({ error }) => error);
+
+    s.stop(
+      `Checked the community files of ${repositories.length} repositories${
+        failed.length > 0 ? ` (${failed.length} could not be read)` : ""
+      }`
+    );
+    failed.forEach(({ repo, error }) =>
+      console.warn(`⚠️  ${repo.name}: ${error}`)
+    );
+
+    return communityFilesById(checks);
+  }
+
+  /**
+   * Score the health of repositories for exports, checking their community
+   * files first; files that could not be read count as missing
+   */
+  async scoreHealth(repositories: GitHubRepository[]): Promise<HealthScore[]> {
+    return scoreRepositories(repositories, {
+      homepageChecks: new Map(),
+      communityFiles: await this.auditCommunityFiles(repositories),
+    });
+  }
+
+  /**
+   * Commit files to the default branch of each repository, one repository per
+   * worker and its files in order. Existing files are never overwritten, and
+   * the commits are not journaled.
+   */
+  async batchCommitFiles(
+    plan: ScaffoldPlanEntry[],
+    message: string
+  ): Promise<Array<{ success: boolean; repo: string; error?: string }>> {
+    const total = plan.reduce((sum, { files }) => sum + files.length, 0);
+
+    if (this.dryRun) {
+      plan.forEach(({ repo, files }) =>
+        files.forEach((file) =>
+          this.dryRunEntries.push({
+            repo: `${repo.owner.login}/${repo.name}`,
+            action: "create-file",
+            before: {},
+            after: {
+              path: file.path,
+              message: message.replace(/{file}/g, file.path),
+              content: file.content,
+            },
+          })
+        )
+      );
+      console.log(
+        `\n🧪 Dry run: ${total} files would be committed to ${plan.length} repositories`
+      );
+      return plan.map(({ repo }) => ({
+        success: true,
+        repo: `${repo.owner.login}/${repo.name}`,
+      }));
+    }
+
+    console.log(
+      `\n📄 Committing ${total} files to ${plan.length} repositories...`
+    );
+
+    let completed = 0;
+    const s = spinner();
+    const progress = () => `Committing files... ${completed}/${plan.length}`;
+    const onWait = (seconds: number) =>
+      s.message(`${progress()} - rate limited, waiting ${seconds}s`);
+
+    s.start(progress());
+
+    const results = await runWorkerPool(
+      plan,
+      this.concurrency,
+      async ({
+        repo,
+        files,
+      }): Promise<{ success: boolean; repo: string; error?: string }> => {
+        const repoName = `${repo.owner.login}/${repo.name}`;
+        let committed = 0;
+        try {
+          for (const file of files) {
+            await this.requestWithBackoff(
+              () =>
+                this.octokit.rest.repos.createOrUpdateFileContents({
+                  owner: repo.owner.login,
+                  repo: repo.name,
+                  path: file.path,
+                  message: message.replace(/{file}/g, file.path),
+                  content: Buffer.from(file.content, "utf8").toString("base64"),
+                }),
+              onWait
+            );
+            committed++;
+          }
+          return { success: true, repo: repoName };
+        } catch (error) {
+          return {
+            success: false,
+            repo: repoName,
+            error: `${
+              error instanceof Error ? error.message : "Unknown error"
+            } (${committed} of ${files.length} files committed)`,
+          };
+        } finally {
+          completed++;
+          s.message(progress());
+        }
+      }
+    );
 
+    const successful = results.filter((r) => r.success).length;
+    s.stop(`Committed files to ${successful} of ${plan.length} repositories`);
     console.log(
-      `\n📊 Batch update completed: ${successful} successful, ${failed} failed`
+      `\n📊 Scaffold completed: ${successful} successful, ${
+        results.length - successful
+      } failed`
     );
 
     return results;
   }
 
   /**
-   * Find repositories with missing or broken descriptions/homepages
+   * Apply a protection profile to the default branch of each repository.
+   * Protection changes are not journaled.
    */
-  async findRepositoriesNeedingUpdate(
-    repositories: GitHubRepository[]
-  ): Promise<{
-    missingDescription: GitHubRepository[];
-    missingHomepage: GitHubRepository[];
-    brokenHomepage: GitHubRepository[];
-  }> {
+  async batchProtectBranches(
+    repositories: GitHubRepository[],
+    profile: ProtectionProfile
+  ): Promise<Array<{ success: boolean; repo: string; error?: string }>> {
+    if (this.dryRun) {
+      const params = toBranchProtectionParams(profile);
+      repositories.forEach((repo) =>
+        this.dryRunEntries.push({
+          repo: `${repo.owner.login}/${repo.name}`,
+          action: "protect-branch",
+          before: {},
+          after: { branch: repo.default_branch, ...params },
+        })
+      );
+      console.log(
+        `\n🧪 Dry run: ${repositories.length} default branches would be protected`
+      );
+      return repositories.map((repo) => ({
+        success: true,
+        repo: `${repo.owner.login}/${repo.name}`,
+      }));
+    }
+
+    console.log(`\n🛡️  Protecting ${repositories.length} default branches...`);
+
+    let completed = 0;
     const s = spinner();
-    s.start("Analyzing repositories for missing/broken metadata...");
+    const progress = () =>
+      `Protecting branches... ${completed}/${repositories.length}`;
+    const onWait = (seconds: number) =>
+      s.message(`${progress()} - rate limited, waiting ${seconds}s`);
+
+    s.start(progress());
 
-    const missingDescription = repositories.filter(
-      (repo) => !repo.description || repo.description.trim() === ""
+    const params = toBranchProtectionParams(profile);
+    const results = await runWorkerPool(
+      repositories,
+      this.concurrency,
+      async (
+        repo
+      ): Promise<{ success: boolean; repo: string; error?: string }> => {
+        const repoName = `${repo.owner.login}/${repo.name}`;
+        try {
+          await this.requestWithBackoff(
+            () =>
+              this.octokit.rest.repos.updateBranchProtection({
+                owner: repo.owner.login,
+                repo: repo.name,
+                branch: repo.default_branch,
+                ...params,
+              }),
+            onWait
+          );
+          return { success: true, repo: repoName };
+        } catch (error) {
+          return {
+            success: false,
+            repo: repoName,
+            error: error instanceof Error ? error.message : "Unknown error",
+          };
+        } finally {
+          completed++;
+          s.message(progress());
+        }
+      }
     );
 
-    const missingHomepage = repositories.filter(
-      (repo) => !repo.homepage || repo.homepage.trim() === ""
+    const successful = results.filter((r) => r.success).length;
+    s.stop(
+      `Protected ${successful} of ${repositories.length} default branches`
+    );
+    console.log(
+      `\n📊 Protection completed: ${successful} successful, ${
+        results.length - successful
+      } failed`
     );
 
-    // Simple check for potentially broken homepages (you might want to enhance this)
-    const brokenHomepage = repositories.filter((repo) => {
-      if (!repo.homepage) return false;
+    return results;
+  }
 
-      // Basic checks for common issues
-      const homepage = repo.homepage.toLowerCase();
-      return (
-        (!homepage.startsWith("http://") &&
-          !homepage.startsWith("https://") &&
-          !homepage.startsWith("www.")) ||
-        homepage.includes("localhost") ||
-        homepage.includes("127.0.0.1")
+  /**
+   * Compare the labels and milestones of each unarchived repository with a
+   * label set, reading only the kinds the set defines; repositories that
+   * cannot be read get an error instead of changes
+   */
+  async planLabelSync(
+    repositories: GitHubRepository[],
+    labelSet: LabelSet,
+    deleteExtra: boolean
+  ): Promise<RepositorySyncPlan[]> {
+    const candidates = repositories.filter((repo) => !repo.archived);
+    let checked = 0;
+
+    const s = spinner();
+    const progress = () =>
+      `Reading labels and milestones... ${checked}/${candidates.length}`;
+    s.start(progress());
+
+    const plans = await runWorkerPool(
+      candidates,
+      this.concurrency,
+      async (repo) => {
+        const owner = repo.owner.login;
+        try {
+          const changes: SyncChange[] = [];
+          if (labelSet.labels) {
+            const labels = await this.listAllPages((page) =>
+              this.octokit.rest.issues.listLabelsForRepo({
+                owner,
+                repo: repo.name,
+                per_page: PAGE_SIZE,
+                page,
+              })
+            );
+            changes.push(
+              ...planLabelChanges(
+                labelSet.labels,
+                labels as GitHubLabel[],
+                deleteExtra
+              )
+            );
+          }
+          if (labelSet.milestones) {
+            const milestones = await this.listAllPages((page) =>
+              this.octokit.rest.issues.listMilestones({
+                owner,
+                repo: repo.name,
+                state: "all",
+                per_page: PAGE_SIZE,
+                page,
+              })
+            );
+            changes.push(
+              ...planMilestoneChanges(
+                labelSet.milestones,
+                milestones as GitHubMilestone[],
+                deleteExtra
+              )
+            );
+          }
+          return { owner, repo: repo.name, changes };
+        } catch (error) {
+          return {
+            owner,
+            repo: repo.name,
+            changes: [],
+            error: error instanceof Error ? error.message : "Unknown error",
+          };
+        } finally {
+          checked++;
+          s.message(progress());
+        }
+      }
+    );
+
+    s.stop(`Read labels and milestones of ${candidates.length} repositories`);
+    return plans;
+  }
+
+  private async applySyncChange(
+    owner: string,
+    repo: string,
+    change: SyncChange,
+    onWait: (seconds: number) => void
+  ): Promise<void> {
+    const octokit = this.octokit;
+
+    if (change.kind === "label") {
+      const { label } = change;
+      if (change.action === "delete") {
+        await this.requestWithBackoff(
+          () =>
+            octokit.rest.issues.deleteLabel({ owner, repo, name: change.name }),
+          onWait
+        );
+      } else if (change.action === "create" && label) {
+        await this.requestWithBackoff(
+          () => octokit.rest.issues.createLabel({ owner, repo, ...label }),
+          onWait
+        );
+      } else if (label) {
+        await this.requestWithBackoff(
+          () =>
+            octokit.rest.issues.updateLabel({
+              owner,
+              repo,
+              name: change.currentName ?? label.name,
+              new_name: label.name,
+              color: label.color,
+              description: label.description,
+            }),
+          onWait
+        );
+      }
+      return;
+    }
+
+    const { milestone } = change;
+    if (change.action === "delete" && change.number !== undefined) {
+      const milestone_number = change.number;
+      await this.requestWithBackoff(
+        () =>
+          octokit.rest.issues.deleteMilestone({
+            owner,
+            repo,
+            milestone_number,
+          }),
+        onWait
       );
-    });
+    } else if (milestone) {
+      const params = {
+        owner,
+        repo,
+        title: milestone.title,
+        description: milestone.description,
+        state: milestone.state,
+        // GitHub keeps only the date; noon UTC keeps it the same day in every time zone
+        due_on: milestone.due_on ? `${milestone.due_on}T12:00:00Z` : undefined,
+      };
+      const milestone_number = change.number;
+      await this.requestWithBackoff(
+        () =>
+          change.action === "update" && milestone_number !== undefined
+            ? octokit.rest.issues.updateMilestone({
+                ...params,
+                milestone_number,
+              })
+            : octokit.rest.issues.createMilestone(params),
+        onWait
+      );
+    }
+  }
 
-    s.stop("Repository analysis completed!");
+  /**
+   * Apply planned label and milestone changes, one repository per worker and
+   * its changes in order. Label changes are not journaled.
+   */
+  async batchSyncLabels(
+    plans: RepositorySyncPlan[]
+  ): Promise<Array<{ success: boolean; repo: string; error?: string }>> {
+    const total = plans.reduce((sum, plan) => sum + plan.changes.length, 0);
+
+    if (this.dryRun) {
+      plans.forEach(({ owner, repo, changes }) =>
+        changes.forEach((change) =>
+          this.dryRunEntries.push({
+            repo: `${owner}/${repo}`,
+            action: `${change.action}-${change.kind}`,
+            before:
+              change.action === "create"
+                ? {}
+                : {
+                    name:
+                      change.kind === "label"
+                        ? change.currentName ?? change.name
+                        : change.name,
+                  },
+            after:
+              change.action === "delete"
+                ? {}
+                : {
+                    ...(change.kind === "label"
+                      ? change.label
+                      : change.milestone),
+                  },
+          })
+        )
+      );
+      console.log(
+        `\n🧪 Dry run: ${total} label and milestone changes would be applied to ${plans.length} repositories`
+      );
+      return plans.map(({ owner, repo }) => ({
+        success: true,
+        repo: `${owner}/${repo}`,
+      }));
+    }
 
-    console.log(`\n🔍 Analysis results:`);
     console.log(
-      `  - ${missingDescription.length} repositories missing descriptions`
+      `\n🏷️  Applying ${total} label and milestone changes to ${plans.length} repositories...`
+    );
+
+    let completed = 0;
+    const s = spinner();
+    const progress = () => `Syncing labels... ${completed}/${plans.length}`;
+    const onWait = (seconds: number) =>
+      s.message(`${progress()} - rate limited, waiting ${seconds}s`);
+
+    s.start(progress());
+
+    const results = await runWorkerPool(
+      plans,
+      this.concurrency,
+      async ({
+        owner,
+        repo,
+        changes,
+      }): Promise<{ success: boolean; repo: string; error?: string }> => {
+        const repoName = `${owner}/${repo}`;
+        let applied = 0;
+        try {
+          for (const change of changes) {
+            await this.applySyncChange(owner, repo, change, onWait);
+            applied++;
+          }
+          return { success: true, repo: repoName };
+        } catch (error) {
+          return {
+            success: false,
+            repo: repoName,
+            error: `${
+              error instanceof Error ? error.message : "Unknown error"
+            } (${applied} of ${changes.length} changes applied)`,
+          };
+        } finally {
+          completed++;
+          s.message(progress());
+        }
+      }
     );
-    console.log(`  - ${missingHomepage.length} repositories missing homepages`);
+
+    const successful = results.filter((r) => r.success).length;
+    s.stop(`Synced ${successful} of ${plans.length} repositories`);
     console.log(
-      `  - ${brokenHomepage.length} repositories with potentially broken homepages`
+      `\n📊 Sync completed: ${successful} successful, ${
+        results.length - successful
+      } failed`
     );
 
-    return {
-      missingDescription,
-      missingHomepage,
-      brokenHomepage,
+    return results;
+  }
+
+  /**
+   * Run the analysis rules to find repositories with missing or broken metadata
+   */
+  async findRepositoriesNeedingUpdate(
+    repositories: GitHubRepository[],
+    options: {
+      checkHomepages?: boolean;
+      checkProtection?: boolean;
+      /** Check community files and score every repository's health */
+      checkCommunityFiles?: boolean;
+      rules?: AnalysisRule[];
+    } = {}
+  ): Promise<RepositoryAnalysis> {
+    const s = spinner();
+    s.start("Analyzing repositories for missing/broken metadata...");
+
+    let homepageChecks: RepositoryAnalysis["homepageChecks"];
+
+    if (options.checkHomepages) {
+      // Malformed homepages are already flagged without a request
+      homepageChecks = await checkRepositoryHomepages(
+        repositories.filter((repo) => !isMalformedHomepage(repo.homepage)),
+        {
+          onProgress: (checked, total) =>
+            s.message(`Checking homepages over HTTP... ${checked}/${total}`),
+        }
+      );
+    }
+
+    let protectionChecks:
+      | Awaited<ReturnType<GitHubService["checkBranchProtection"]>>
+      | undefined;
+
+    if (options.checkProtection) {
+      protectionChecks = await this.checkBranchProtection(
+        repositories,
+        (checked, total) =>
+          s.message(`Checking branch protection... ${checked}/${total}`)
+      );
+    }
+
+    let fileChecks:
+      | Awaited<ReturnType<GitHubService["fetchCommunityFiles"]>>
+      | undefined;
+
+    if (options.checkCommunityFiles) {
+      fileChecks = await this.fetchCommunityFiles(
+        repositories,
+        (checked, total) =>
+          s.message(`Checking community files... ${checked}/${total}`)
+      );
+    }
+
+    const rules = options.rules ?? getAnalysisRules();
+    let details: GitHubRepository[] = [];
+
+    if (rules.some((rule) => rule.requiresDetails)) {
+      details = await this.fetchRepositoryDetails(
+        repositories,
+        (fetched, total) =>
+          s.message(`Fetching repository settings... ${fetched}/${total}`)
+      );
+    }
+
+    const context: AnalysisContext = {
+      repositoryDetails: new Map(details.map((repo) => [repo.id, repo])),
+      homepageChecks: new Map(
+        (homepageChecks ?? []).map(({ repo, result }) => [repo.id, result])
+      ),
+      branchProtection: new Map(
+        (protectionChecks ?? [])
+          .filter(({ result }) => result !== undefined)
+          .map(({ repo, result }) => [repo.id, result!])
+      ),
+      communityFiles: communityFilesById(fileChecks ?? []),
     };
+    const results = runAnalysisRules(repositories, rules, context);
+    const health = fileChecks
+      ? scoreRepositories(repositories, context)
+      : undefined;
+
+    s.stop("Repository analysis completed!");
+
+    console.log(`\n🔍 Analysis results:`);
+    results.forEach(({ rule, repositories: flagged }) => {
+      console.log(`  - ${flagged.length} ${rule.title}`);
+    });
+
+    if (homepageChecks) {
+      const redirected = homepageChecks.filter(
+        ({ result }) => result.status === "redirected"
+      ).length;
+      console.log(
+        `    (${homepageChecks.length} homepages checked over HTTP, ${redirected} redirected)`
+      );
+    }
+
+    if (protectionChecks) {
+      const failed = protectionChecks.filter(({ error }) => error);
+      console.log(
+        `    (${
+          protectionChecks.length - failed.length
+        } default branches checked for protection${
+          failed.length > 0
+            ? `, ${failed.length} could not be read (admin access required)`
+            : ""
+        })`
+      );
+    }
+
+    if (health) {
+      const failed = fileChecks!.filter(({ error }) => error).length;
+      console.log(
+        `\n🩺 Average health score: ${averageHealthScore(health)}/100${
+          failed > 0
+            ? ` (${failed} repositories could not be read, files counted as missing)`
+            : ""
+        }`
+      );
+    }
+
+    return { results, context, homepageChecks, health };
   }
 }
@@ -0,0 +1,148 @@
+import {
+  GitHubRepository,
+  AnalysisContext,
+  HealthFactor,
+  HealthScore,
+} from "./types.js";
+import { isMalformedHomepage, isHomepageProblem } from "./homepage-check.js";
+import { getLicense, getTopics } from "./repository-fields.js";
+import { monthsSince, DEFAULT_STALE_MONTHS } from "./lifecycle.js";
+
+/** Pushes within this many months earn full activity points */
+const ACTIVE_MONTHS = 6;
+
+/**
+ * Scoring factors and their maximum points, adding up to 100
+ */
+export const HEALTH_FACTORS: Array<{
+  factor: HealthFactor;
+  label: string;
+  max: number;
+  points: (
+    repo: GitHubRepository,
+    context: Pick<AnalysisContext, "homepageChecks" | "communityFiles">
+  ) => number;
+}> = [
+  {
+    factor: "description",
+    label: "description",
+    max: 15,
+    points: (repo) => (repo.description?.trim() ? 15 : 0),
+  },
+  {
+    factor: "homepage",
+    label: "working homepage",
+    max: 10,
+    points: (repo, context) => {
+      if (!repo.homepage?.trim() || isMalformedHomepage(repo.homepage)) {
+        return 0;
+      }
+      const result = context.homepageChecks.get(repo.id);
+      return result && isHomepageProblem(result) ? 0 : 10;
+    },
+  },
+  {
+    factor: "readme",
+    label: "README",
+    max: 20,
+    points: (repo, context) =>
+      context.communityFiles.get(repo.id)?.readme ? 20 : 0,
+  },
+  {
+    factor: "license",
+    label: "LICENSE",
+    max: 15,
+    points: (repo, context) =>
+      getLicense(repo) || context.communityFiles.get(repo.id)?.license ? 15 : 0,
+  },
+  {
+    factor: "contributing",
+    label: "CONTRIBUTING",
+    max: 10,
+    points: (repo, context) =>
+      context.communityFiles.get(repo.id)?.contributing ? 10 : 0,
+  },
+  {
+    factor: "topics",
+    label: "topics",
+    max: 10,
+    points: (repo) => (getTopics(repo).length > 0 ? 10 : 0),
+  },
+  {
+    factor: "activity",
+    label: "recent activity",
+    max: 10,
+    points: (repo) => {
+      if (!repo.pushed_at) return 0;
+      const months = monthsSince(repo.pushed_at);
+      return months < ACTIVE_MONTHS
+        ? 10
+        : months < DEFAULT_STALE_MONTHS
+        ? 5
+        : 0;
+    },
+  },
+  {
+    factor: "issues",
+    label: "few open issues",
+    max: 10,
+    // open_issues_count includes open pull requests
+    points: (repo) =>
+      repo.open_issues_count <= 10 ? 10 : repo.open_issues_count <= 50 ? 5 : 0,
+  },
+];
+
+/**
+ * Score one repository; files that were not checked count as missing
+ */
+export function scoreRepositoryHealth(
+  repo: GitHubRepository,
+  context: Pick<AnalysisContext, "homepageChecks" | "communityFiles">
+): HealthScore {
+  const factors = HEALTH_FACTORS.map(({ factor, max, points }) => ({
+    factor,
+    points: points(repo, context),
+    max,
+  }));
+  return {
+    repo,
+    score: factors.reduce((sum, { points }) => sum + points, 0),
+    factors,
+  };
+}
+
+/**
+ * Score every repository, highest first and by name within a score
+ */
+export function scoreRepositories(
+  repositories: GitHubRepository[],
+  context: Pick<AnalysisContext, "homepageChecks" | "communityFiles">
+): HealthScore[] {
+  return repositories
+    .map((repo) => scoreRepositoryHealth(repo, context))
+    .sort(
+      (a, b) => b.score - a.score || a.repo.name.localeCompare(b.repo.name)
+    );
+}
+
+/**
+ * Mean score to one decimal place, or 0 without repositories
+ */
+export function averageHealthScore(scores: HealthScore[]): number {
+  if (scores.length === 0) return 0;
+  const total = scores.reduce((sum, { score }) => sum + score, 0);
+  return Math.round((total / scores.length) * 10) / 10;
+}
+
+/**
+ * Factors that lost points, e.g. "README, topics, recent activity (5/10)"
+ */
+export function describeHealthGaps(health: HealthScore): string {
+  return health.factors
+    .filter(({ points, max }) => points < max)
+    .map(({ factor, points, max }) => {
+      const { label } = HEALTH_FACTORS.find((f) => f.factor === factor)!;
+      return points > 0 ? `${label} (${points}/${max})` : label;
+    })
+    .join(", ");
+}
@@ -0,0 +1,166 @@
+import { GitHubRepository, HomepageCheckResult } from "./types.js";
+import { runWorkerPool } from "./worker-pool.js";
+
+export const DEFAULT_HOMEPAGE_TIMEOUT_MS = 10_000;
+const HOMEPAGE_CHECK_CONCURRENCY = 8;
+
+const TLS_ERROR_CODES = [
+  "CERT_HAS_EXPIRED",
+  "DEPTH_ZERO_SELF_SIGNED_CERT",
+  "SELF_SIGNED_CERT_IN_CHAIN",
+  "UNABLE_TO_GET_ISSUER_CERT_LOCALLY",
+  "UNABLE_TO_VERIFY_LEAF_SIGNATURE",
+];
+
+/**
+ * String-only check for homepages that cannot be valid public URLs
+ */
+export function isMalformedHomepage(homepage: string | null): boolean {
+  if (!homepage) return false;
+
+  const value = homepage.toLowerCase();
+  return (
+    (!value.startsWith("http://") &&
+      !value.startsWith("https://") &&
+      !value.startsWith("www.")) ||
+    value.includes("localhost") ||
+    value.includes("127.0.0.1")
+  );
+}
+
+/**
+ * Add a scheme to bare "www." homepages so they can be requested
+ */
+function toRequestUrl(homepage: string): string {
+  return /^https?:\/\//i.test(homepage) ? homepage : `https://${homepage}`;
+}
+
+/**
+ * Sort a failed request into DNS, TLS, timeout or other network errors
+ */
+function classifyError(url: string, error: unknown): HomepageCheckResult {
+  const cause = (error as { cause?: { code?: string; message?: string } })
+    ?.cause;
+  const code = cause?.code ?? "";
+  const message =
+    cause?.message ?? (error instanceof Error ? error.message : String(error));
+
+  if (code === "ENOTFOUND" || code === "EAI_AGAIN") {
+    return { url, status: "dns-failure", error: message };
+  }
+  if (
+    code.startsWith("ERR_TLS") ||
+    code.startsWith("ERR_SSL") ||
+    TLS_ERROR_CODES.includes(code)
+  ) {
+    return { url, status: "tls-error", error: message };
+  }
+  if (
+    error instanceof Error &&
+    (error.name === "TimeoutError" || error.name === "AbortError")
+  ) {
+    return { url, status: "timeout", error: "Request timed out" };
+  }
+  return { url, status: "network-error", error: message };
+}
+
+/**
+ * Request a homepage (HEAD, falling back to GET) and follow redirects
+ */
+export async function checkHomepage(
+  homepage: string,
+  timeoutMs: number = DEFAULT_HOMEPAGE_TIMEOUT_MS
+): Promise<HomepageCheckResult> {
+  const url = toRequestUrl(homepage.trim());
+
+  try {
+    let response = await fetch(url, {
+      method: "HEAD",
+      redirect: "follow",
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    // Some servers reject HEAD outright; retry those with GET
+    if (response.status === 405 || response.status === 501) {
+      response = await fetch(url, {
+        method: "GET",
+        redirect: "follow",
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      await response.body?.cancel();
+    }
+
+    const statusCode = response.status;
+
+    if (statusCode >= 500) {
+      return { url, status: "server-error", statusCode };
+    }
+    if (statusCode >= 400) {
+      return { url, status: "client-error", statusCode };
+    }
+    if (response.redirected && response.url !== url) {
+      return { url, status: "redirected", statusCode, finalUrl: response.url };
+    }
+    return { url, status: "ok", statusCode };
+  } catch (error) {
+    return classifyError(url, error);
+  }
+}
+
+/**
+ * Check every repository homepage concurrently
+ */
+export async function checkRepositoryHomepages(
+  repositories: GitHubRepository[],
+  options: {
+    timeoutMs?: number;
+    onProgress?: (checked: number, total: number) => void;
+  } = {}
+): Promise<Array<{ repo: GitHubRepository; result: HomepageCheckResult }>> {
+  const withHomepage = repositories.filter(
+    (repo) => repo.homepage && repo.homepage.trim() !== ""
+  );
+  let checked = 0;
+
+  return runWorkerPool(
+    withHomepage,
+    HOMEPAGE_CHECK_CONCURRENCY,
+    async (repo) => {
+      const result = await checkHomepage(repo.homepage!, options.timeoutMs);
+      options.onProgress?.(++checked, withHomepage.length);
+      return { repo, result };
+    }
+  );
+}
+
+/**
+ * Whether a deep check found the homepage needing attention
+ */
+export function isHomepageProblem(result: HomepageCheckResult): boolean {
+  return result.status !== "ok";
+}
+
+/**
+ * Short human-readable description of a check result
+ */
+export function describeHomepageCheck(result: HomepageCheckResult): string {
+  switch (result.status) {
+    case "ok":
+      return `OK (${result.statusCode})`;
+    case "redirected":
+      return `Redirected → ${result.finalUrl}`;
+    case "client-error":
+      return `Client error (${result.statusCode})`;
+    case "server-error":
+      return `Server error (${result.statusCode})`;
+    case "dns-failure":
+      return `DNS failure: ${result.error}`;
+    case "tls-error":
+      return `TLS error: ${result.error}`;
+    case "timeout":
+      return "Timed out";
+    case "network-error":
+    default:
+      return `Network error: ${result.error}`;
+  }
+}
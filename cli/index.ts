@@ -1,16 +1,92 @@
-import { Command } from "commander";
-import { intro, outro, text, select } from "@clack/prompts";
-import { GitHubService } from "./github-service.js";
-import { writeRepositoriesToFile } from "./formatters.js";
+import { Command, Option, Argument, InvalidArgumentError } from "commander";
+import { intro, outro, text, select, confirm } from "@clack/prompts";
+import { GitHubService, DEFAULT_CONCURRENCY } from "./github-service.js";
+import { writeRepositoriesToFile, writeDryRunToFile } from "./formatters.js";
 import {
   editSingleRepository,
   batchEditRepositories,
   analyzeRepositories,
+  promptForFilter,
 } from "./edit-workflows.js";
-import { CLIOptions } from "./types.js";
+import {
+  runExportCommand,
+  runAnalyzeCommand,
+  runEditCommand,
+  runBatchEditCommand,
+  runPlanCommand,
+  runApplyCommand,
+  runUndoCommand,
+  runImportCsvCommand,
+  runSnapshotCommand,
+  runDiffCommand,
+  runRenameCommand,
+  runTransferCommand,
+  runProtectCommand,
+  runSyncCommand,
+  runScaffoldCommand,
+  CommandError,
+} from "./commands.js";
+import { RepositoryJournal, DEFAULT_JOURNAL_FILE } from "./journal.js";
+import { DEFAULT_SNAPSHOT_DIR } from "./snapshots.js";
+import {
+  applyRepositoryFilters,
+  parseFilterExpression,
+  matchesQuery,
+  FILTER_EXAMPLE,
+} from "./filters.js";
+import { parseTopicList } from "./topics.js";
+import { DEFAULT_STALE_MONTHS } from "./lifecycle.js";
+import { RENAME_PATTERN_EXAMPLE } from "./moves.js";
+import { DEFAULT_SCAFFOLD_MESSAGE } from "./community-files.js";
+import {
+  PROTECTION_PROFILES,
+  DEFAULT_PROTECTION_PROFILE,
+  parseRequiredReviews,
+} from "./branch-protection.js";
+import {
+  parseSortKeys,
+  sortRepositories,
+  apiSortFor,
+  fetchLimitFor,
+} from "./sorting.js";
+import { ResponseCache, DEFAULT_CACHE_DIR } from "./response-cache.js";
+import { loadAnalysisRules, registerAnalysisRule } from "./analysis-rules.js";
+import {
+  BOOLEAN_SETTINGS,
+  loadSettingsBaseline,
+  createBaselineRule,
+} from "./repository-settings.js";
+import { parseDelimiter, parseCsvColumns, CSV_COLUMNS } from "./csv.js";
+import { CLIOptions, ExitCode } from "./types.js";
 
 const program = new Command();
 
+/**
+ * Report a parser's error as an invalid commander argument
+ */
+function wrapParser<T>(parse: () => T): T {
+  try {
+    return parse();
+  } catch (error) {
+    throw new InvalidArgumentError(
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+/**
+ * Build a commander argument parser accepting positive integers only
+ */
+function parsePositiveInteger(label: string): (value: string) => number {
+  return (value) => {
+    const parsed = /^\d+$/.test(value.trim()) ? Number(value) : NaN;
+    if (isNaN(parsed) || parsed <= 0) {
+      throw new InvalidArgumentError(`${label} must be a positive whole number.`);
+    }
+    return parsed;
+  };
+}
+
 program
   .name("github-cli")
   .description("CLI tool to fetch and edit GitHub repositories using Octokit")
@@ -20,19 +96,487 @@ program
     "GitHub personal access token (requires 'repo' scope for private repos and editing)"
   )
   .option("-u, --user <username>", "GitHub username")
+  .option("-o, --org <org>", "GitHub organization to list repositories for")
   .option(
-    "-s, --sort <sort>",
-    "Sort repositories by (updated, created, pushed, name)"
+    "-s, --sort <fields>",
+    'Sort by comma-separated fields, "-" for descending and "+" for ascending, e.g. "language,-stars"; dates default to newest first',
+    (value) => wrapParser(() => parseSortKeys(value))
   )
   .option(
     "-f, --file <filename>",
-    "Output filename for repositories (.txt or .json)"
+    "Output filename for repositories (.txt, .json, .csv, .md or .html)"
+  )
+  .option(
+    "-l, --limit <count>",
+    "Maximum number of repositories to fetch (default: all)",
+    parsePositiveInteger("Limit")
+  )
+  .option(
+    "--concurrency <count>",
+    `Maximum repository updates in flight during batch edits (default: ${DEFAULT_CONCURRENCY})`,
+    parsePositiveInteger("Concurrency")
+  )
+  .option(
+    "--filter <expression>",
+    `Only repositories matching a filter expression, e.g. "${FILTER_EXAMPLE}"`,
+    (value) => wrapParser(() => parseFilterExpression(value))
+  )
+  .addOption(
+    new Option(
+      "--archived <mode>",
+      "Include, exclude or only show archived repositories"
+    ).choices(["include", "exclude", "only"])
+  )
+  .addOption(
+    new Option(
+      "--forks <mode>",
+      "Include, exclude or only show forked repositories"
+    ).choices(["include", "exclude", "only"])
+  )
+  .option(
+    "--topic <topics>",
+    "Only repositories with all of these comma-separated topics",
+    (value) =>
+      value
+        .split(",")
+        .map((topic) => topic.trim())
+        .filter(Boolean)
+  )
+  .option(
+    "--license <license>",
+    'Only repositories with this SPDX license ID, or "none" for unlicensed ones'
+  )
+  .option(
+    "--check-homepages",
+    "Check that homepages are reachable over HTTP during analysis and homepage fixes"
+  )
+  .option(
+    "--check-protection",
+    "Fetch default branch protection during analysis (needs admin access)"
+  )
+  .option(
+    "--baseline <file>",
+    "YAML/JSON file of repository settings every repository should have; analysis flags drift"
+  )
+  .option(
+    "--rules <module>",
+    "JavaScript module exporting extra analysis rules to register"
+  )
+  .option(
+    "--csv-columns <columns>",
+    `Comma-separated columns for CSV exports (${Object.keys(CSV_COLUMNS).join(
+      ", "
+    )})`,
+    (value) =>
+      wrapParser(() =>
+        parseCsvColumns(
+          value
+            .split(",")
+            .map((column) => column.trim())
+            .filter(Boolean)
+        )
+      )
+  )
+  .option(
+    "--csv-delimiter <delimiter>",
+    'CSV field delimiter, e.g. ";" or "tab" (default: ",")',
+    (value) => wrapParser(() => parseDelimiter(value))
+  )
+  .option(
+    "--dry-run",
+    "Preview repository updates as before/after diffs without changing anything"
+  )
+  .option(
+    "--dry-run-file <filename>",
+    "Also write dry-run update payloads to a JSON file (implies --dry-run)"
+  )
+  .option(
+    "--journal <filename>",
+    `Journal recording every repository update (default: ${DEFAULT_JOURNAL_FILE})`
+  )
+  .option(
+    "--snapshot-dir <directory>",
+    `Directory storing repository snapshots (default: ${DEFAULT_SNAPSHOT_DIR})`
+  )
+  .option(
+    "--cache-dir <directory>",
+    `Directory caching GitHub API responses (default: ${DEFAULT_CACHE_DIR})`
+  )
+  .addOption(
+    new Option(
+      "--offline",
+      "Serve repository data only from the cache, without contacting GitHub"
+    ).conflicts("refresh")
+  )
+  .option(
+    "--refresh",
+    "Ignore cached responses and fetch everything from GitHub again"
+  );
+
+/**
+ * Run a non-interactive subcommand and exit with its exit code
+ */
+function runCommand<T extends unknown[]>(
+  handler: (...args: T) => Promise<ExitCode>
+): (...args: T) => Promise<void> {
+  return async (...args: T) => {
+    try {
+      process.exit(await handler(...args));
+    } catch (error) {
+      if (error instanceof CommandError) {
+        console.error(`❌ Error: ${error.message}`);
+        process.exit(error.exitCode);
+      }
+      console.error(
+        `❌ Error: ${
+          error instanceof Error ? error.message : "An unknown error occurred"
+        }`
+      );
+      process.exit(ExitCode.Error);
+    }
+  };
+}
+
+const TOPIC_OPTION_DESCRIPTIONS = {
+  set: "Replace all topics with these comma-separated topics",
+  add: "Add comma-separated topics",
+  remove: "Remove comma-separated topics",
+};
+
+const topicsOption = (action: keyof typeof TOPIC_OPTION_DESCRIPTIONS) =>
+  new Option(
+    `--${action}-topics <topics>`,
+    `${TOPIC_OPTION_DESCRIPTIONS[action]} (templates: {language}, {name}, {owner})`
+  ).argParser(parseTopicList);
+
+const reposOption = (description: string) =>
+  new Option("--repos <names>", description).argParser((value) =>
+    value
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean)
+  );
+
+const mappingOption = () =>
+  new Option(
+    "--mapping <filename>",
+    "Write old → new repository URLs to a file (.json, .csv or .txt)"
+  );
+
+/**
+ * --<flag> and --no-<flag> options for every boolean setting, plus --default-branch
+ */
+const settingsOptions = () => [
+  ...BOOLEAN_SETTINGS.flatMap(({ option, label }) => {
+    const flag = option.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+    return [
+      new Option(`--${flag}`, `Enable ${label.toLowerCase()}`),
+      new Option(`--no-${flag}`, `Disable ${label.toLowerCase()}`),
+    ];
+  }),
+  new Option("--default-branch <branch>", "Set the default branch"),
+];
+
+const visibilityOption = () =>
+  new Option("--visibility <visibility>", "Set repository visibility").choices([
+    "public",
+    "private",
+  ]);
+
+program
+  .command("export")
+  .description("Fetch repositories and write them to --file without prompting")
+  .option(
+    "--health",
+    "Include a 0-100 health score per repository (one request per repository)"
+  )
+  .action(
+    runCommand(async (_options, command: Command) =>
+      runExportCommand(command.optsWithGlobals())
+    )
+  );
+
+program
+  .command("analyze")
+  .description(
+    "Analyze repositories for missing/broken metadata without prompting"
+  )
+  .option(
+    "--fail-on-issues",
+    `Exit with code ${ExitCode.IssuesFound} when issues are found`
+  )
+  .option(
+    "--health",
+    "Check community files and score repository health (one request per repository)"
+  )
+  .action(
+    runCommand(async (_options, command: Command) =>
+      runAnalyzeCommand(command.optsWithGlobals())
+    )
+  );
+
+const editCommand = program
+  .command("edit")
+  .description("Update a single repository (requires token)")
+  .argument("<repository>", "Repository name or owner/name")
+  .option("--description <description>", "New description")
+  .option("--homepage <url>", "New homepage URL")
+  .addOption(visibilityOption());
+
+settingsOptions().forEach((option) => editCommand.addOption(option));
+
+editCommand
+  .addOption(topicsOption("set"))
+  .addOption(topicsOption("add"))
+  .addOption(topicsOption("remove"))
+  .action(
+    runCommand(async (repository: string, _options, command: Command) =>
+      runEditCommand(repository, command.optsWithGlobals())
+    )
+  );
+
+const batchEditCommand = program
+  .command("batch-edit")
+  .description("Apply a batch edit without prompting (requires token)")
+  .addArgument(
+    new Argument("<mode>", "Batch edit mode").choices([
+      "add-description",
+      "fix-homepage",
+      "update-privacy",
+      "custom-updates",
+      "auto-fix",
+      "topics",
+      "archive-stale",
+      "unarchive",
+    ])
+  )
+  .addOption(
+    reposOption("Comma-separated repository names to limit the batch to")
+  )
+  .option(
+    "--description <template>",
+    "Description template (use {name} and {owner})"
+  )
+  .option("--homepage <template>", "Homepage template (use {name} and {owner})")
+  .addOption(visibilityOption());
+
+// custom-updates applies any of these to every selected repository
+settingsOptions().forEach((option) => batchEditCommand.addOption(option));
+
+batchEditCommand
+  .addOption(topicsOption("set"))
+  .addOption(topicsOption("add"))
+  .addOption(topicsOption("remove"))
+  .option(
+    "--months <count>",
+    `archive-stale: months without a push before a repository is stale (default: ${DEFAULT_STALE_MONTHS})`,
+    parsePositiveInteger("Months")
+  )
+  .option(
+    "--report <filename>",
+    "archive-stale/unarchive: write the outcome to a report file (.txt or .json)"
+  )
+  .option(
+    "--yes",
+    "archive-stale: archive every stale repository without --repos or a filter"
+  )
+  .action(
+    runCommand(async (mode, _options, command: Command) =>
+      runBatchEditCommand(mode, command.optsWithGlobals())
+    )
+  );
+
+program
+  .command("rename")
+  .description(
+    "Rename selected repositories with a pattern, checking for name collisions (requires token)"
+  )
+  .requiredOption(
+    "--pattern <pattern>",
+    `New name pattern using {name} and {owner}, e.g. "${RENAME_PATTERN_EXAMPLE}"`
+  )
+  .addOption(reposOption("Comma-separated repository names to rename"))
+  .addOption(mappingOption())
+  .action(
+    runCommand(async (_options, command: Command) =>
+      runRenameCommand(command.optsWithGlobals())
+    )
+  );
+
+program
+  .command("transfer")
+  .description(
+    "Transfer selected repositories to another user or organization (requires token)"
+  )
+  .argument("<new-owner>", "User or organization receiving the repositories")
+  .addOption(reposOption("Comma-separated repository names to transfer"))
+  .addOption(mappingOption())
+  .action(
+    runCommand(async (newOwner: string, _options, command: Command) =>
+      runTransferCommand(newOwner, command.optsWithGlobals())
+    )
+  );
+
+program
+  .command("protect")
+  .description(
+    "Apply a branch protection profile to the default branch of selected repositories (requires token)"
+  )
+  .option(
+    "--profile <profile>",
+    `Built-in profile (${Object.keys(PROTECTION_PROFILES).join(
+      ", "
+    )}) or a YAML/JSON profile file`,
+    DEFAULT_PROTECTION_PROFILE
+  )
+  .addOption(reposOption("Comma-separated repository names to protect"))
+  .option(
+    "--required-reviews <count>",
+    "Override the profile's required approving reviews (0-6)",
+    (value) => wrapParser(() => parseRequiredReviews(value))
+  )
+  .option(
+    "--status-checks <checks>",
+    "Override the profile's required status checks (comma-separated)",
+    (value) =>
+      value
+        .split(",")
+        .map((check) => check.trim())
+        .filter(Boolean)
+  )
+  .option("--linear-history", "Require linear history")
+  .option("--no-linear-history", "Do not require linear history")
+  .option(
+    "--only-unprotected",
+    "Only repositories whose default branch is unprotected or allows force pushes"
+  )
+  .action(
+    runCommand(async (_options, command: Command) =>
+      runProtectCommand(command.optsWithGlobals())
+    )
+  );
+
+program
+  .command("sync")
+  .description(
+    "Create and update labels and milestones so selected repositories match a YAML/JSON file (requires token)"
+  )
+  .argument("<file>", "Label file (.yml, .yaml or .json)")
+  .addOption(reposOption("Comma-separated repository names to sync"))
+  .option(
+    "--delete",
+    "Also delete labels and milestones missing from the file, for the kinds it lists"
+  )
+  .option("--yes", "Apply planned deletions without stopping after the plan")
+  .action(
+    runCommand(async (file: string, _options, command: Command) =>
+      runSyncCommand(file, command.optsWithGlobals())
+    )
+  );
+
+program
+  .command("scaffold")
+  .description(
+    "Commit missing README, LICENSE, CONTRIBUTING, CODE_OF_CONDUCT and SECURITY files from templates (requires token)"
+  )
+  .argument(
+    "<templates>",
+    "Directory of templates named like the files, e.g. SECURITY.md; {name}, {owner} and {description} are filled in"
+  )
+  .addOption(reposOption("Comma-separated repository names to scaffold"))
+  .option(
+    "--message <message>",
+    `Commit message, with {file} for the file name (default: "${DEFAULT_SCAFFOLD_MESSAGE}")`
+  )
+  .action(
+    runCommand(async (templates: string, _options, command: Command) =>
+      runScaffoldCommand(templates, command.optsWithGlobals())
+    )
+  );
+
+program
+  .command("plan")
+  .description(
+    "Show changes needed to make repositories match a YAML/JSON manifest"
+  )
+  .argument("<manifest>", "Manifest file (.yml, .yaml or .json)")
+  .action(
+    runCommand(async (manifest: string, _options, command: Command) =>
+      runPlanCommand(manifest, command.optsWithGlobals())
+    )
+  );
+
+program
+  .command("apply")
+  .description("Apply a YAML/JSON manifest to repositories (requires token)")
+  .argument("<manifest>", "Manifest file (.yml, .yaml or .json)")
+  .action(
+    runCommand(async (manifest: string, _options, command: Command) =>
+      runApplyCommand(manifest, command.optsWithGlobals())
+    )
+  );
+
+program
+  .command("import-csv")
+  .description(
+    "Apply description, homepage and privacy changes from an edited CSV export (requires token)"
+  )
+  .argument("<file>", "CSV file with a Name column")
+  .action(
+    runCommand(async (file: string, _options, command: Command) =>
+      runImportCsvCommand(file, command.optsWithGlobals())
+    )
+  );
+
+program
+  .command("undo")
+  .description(
+    "Roll back the last batch of repository updates, or a chosen batch by ID (requires token)"
   )
-  .parse(process.argv);
+  .argument("[batch-id]", "Batch ID from the journal (default: most recent)")
+  .option("--list", "List recorded batches instead of undoing")
+  .action(
+    runCommand(
+      async (batchId: string | undefined, _options, command: Command) =>
+        runUndoCommand(batchId, command.optsWithGlobals())
+    )
+  );
 
-const options = program.opts() as CLIOptions;
+program
+  .command("snapshot")
+  .description("Save the current repositories as a timestamped snapshot")
+  .option("--list", "List saved snapshots instead of taking one")
+  .action(
+    runCommand(async (_options, command: Command) =>
+      runSnapshotCommand(command.optsWithGlobals())
+    )
+  );
+
+program
+  .command("diff")
+  .description(
+    "Compare two snapshots: added, removed and renamed repositories, star/fork deltas, privacy and metadata changes"
+  )
+  .argument(
+    "[from]",
+    'Snapshot ("latest", "previous", an ID or date prefix) or a JSON export file',
+    "previous"
+  )
+  .argument("[to]", "Snapshot or JSON export file to compare against", "latest")
+  .addOption(
+    new Option("--format <format>", "Output format")
+      .choices(["text", "json"])
+      .default("text")
+  )
+  .action(
+    runCommand(async (from: string, to: string, _options, command: Command) =>
+      runDiffCommand(from, to, command.optsWithGlobals())
+    )
+  );
 
 async function main() {
+  const options = program.opts() as CLIOptions;
+
   try {
     intro("🚀 GitHub CLI Tool - Repository Manager");
 
@@ -82,17 +626,48 @@ async function main() {
       }
     }
 
+    if (options.rules) {
+      const rules = await loadAnalysisRules(options.rules);
+      console.log(
+        `📏 Registered ${rules.length} analysis rules from ${options.rules}`
+      );
+    }
+
+    if (options.baseline) {
+      registerAnalysisRule(
+        createBaselineRule(await loadSettingsBaseline(options.baseline))
+      );
+      console.log(`📏 Checking settings against ${options.baseline}`);
+    }
+
     // Step 2: Initialize GitHub service
-    const githubService = new GitHubService(token);
+    const dryRun = options.dryRun || !!options.dryRunFile;
+    const githubService = new GitHubService(token, {
+      dryRun,
+      journal: new RepositoryJournal(options.journal),
+      concurrency: options.concurrency,
+      cache: new ResponseCache(options.cacheDir),
+      offline: options.offline,
+      refresh: options.refresh,
+    });
+
+    if (dryRun) {
+      console.log("🧪 Dry run: no repositories will be changed");
+    }
+    if (options.offline) {
+      console.log("📦 Offline: using cached GitHub responses only");
+    }
 
     // Step 3: Get authentication info and username
     const authInfo = await githubService.getAuthenticationInfo(token);
     let username = authInfo.username;
 
+    let org = options.org;
+
     if (!authInfo.isAuthenticated) {
       // If no token or invalid token, ask for username (required)
       username = options.user || "";
-      if (!username) {
+      if (!username && !org) {
         const usernameInput = await text({
           message: "Enter GitHub username:",
           placeholder: "octocat",
@@ -107,10 +682,33 @@ async function main() {
     }
 
     // Ensure username is valid
-    if (!username || username.trim() === "") {
+    if (!org && (!username || username.trim() === "")) {
       throw new Error("Username is required");
     }
 
+    // Offer the user's organizations as an alternative repository owner
+    if (!org && authInfo.isAuthenticated) {
+      const orgs = await githubService.listOrganizations();
+
+      if (orgs.length > 0) {
+        const selectedOrg = (await select({
+          message: "Whose repositories would you like to work with?",
+          options: [
+            { value: "", label: `👤 ${username} (personal)` },
+            ...orgs.map((o) => ({
+              value: o.login,
+              label: `🏢 ${o.login}`,
+              hint: o.description || undefined,
+            })),
+          ],
+        })) as string;
+
+        org = selectedOrg || undefined;
+      }
+    }
+
+    const owner = org || username;
+
     // Step 4: Show action selection
     const action = await select({
       message: "What would you like to do?",
@@ -143,12 +741,19 @@ async function main() {
     });
 
     // Step 5: Fetch repositories (common for all actions)
-    const sort = options.sort || "updated";
-    const repos = await githubService.fetchRepositories(
+    const fetched = await githubService.fetchRepositories(
       username,
       authInfo.isAuthenticated,
-      sort
+      {
+        ...apiSortFor(options.sort),
+        maxCount: fetchLimitFor(options.sort, options.limit),
+        org,
+      }
     );
+    const repos = sortRepositories(
+      applyRepositoryFilters(fetched, options),
+      options.sort
+    ).slice(0, options.limit);
 
     // Step 6: Execute selected action
     switch (action) {
@@ -157,7 +762,8 @@ async function main() {
         let filename = options.file;
         if (!filename) {
           const filenameInput = await text({
-            message: "Enter filename for output (supports .txt, .json, .csv):",
+            message:
+              "Enter filename for output (supports .txt, .json, .csv, .md, .html):",
             placeholder: "repositories.txt",
             defaultValue: "repositories.txt",
           });
@@ -169,12 +775,35 @@ async function main() {
           }
         }
 
+        // Optionally narrow the export with a filter expression
+        const exportFilter = await promptForFilter(
+          "Filter repositories to export (leave empty for all):"
+        );
+
+        const includeHealth = (await confirm({
+          message: "Include health scores? (one request per repository)",
+          initialValue: false,
+        })) as boolean;
+
         // Write repositories to file
-        await writeRepositoriesToFile(repos, username, filename);
+        await writeRepositoriesToFile(repos, owner, filename, {
+          csv: { columns: options.csvColumns, delimiter: options.csvDelimiter },
+          filter: exportFilter,
+          health: includeHealth
+            ? await githubService.scoreHealth(
+                exportFilter
+                  ? repos.filter((repo) => matchesQuery(repo, exportFilter))
+                  : repos
+              )
+            : undefined,
+        });
         break;
 
       case "analyze-repositories":
-        await analyzeRepositories(githubService, repos, username);
+        await analyzeRepositories(githubService, repos, owner, {
+          checkHomepages: options.checkHomepages,
+          checkProtection: options.checkProtection,
+        });
         break;
 
       case "edit-single":
@@ -201,6 +830,13 @@ async function main() {
         process.exit(0);
     }
 
+    if (dryRun && options.dryRunFile) {
+      await writeDryRunToFile(
+        githubService.getDryRunEntries(),
+        options.dryRunFile
+      );
+    }
+
     outro("Done! ✨");
   } catch (error) {
     if (error instanceof Error) {
@@ -212,6 +848,8 @@ async function main() {
   }
 }
 
+program.action(main);
+
 if (require.main === module) {
-  main();
+  program.parseAsync(process.argv);
 }
@@ -0,0 +1,138 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { JournalEntry, JournalBatch, RepositoryUpdateData } from "./types.js";
+
+/**
+ * Default journal location, shared by every run on this machine
+ */
+export const DEFAULT_JOURNAL_FILE = path.join(
+  os.homedir(),
+  ".github-cli",
+  "journal.jsonl"
+);
+
+/**
+ * Append-only record of repository updates, one JSON entry per line
+ */
+export class RepositoryJournal {
+  constructor(private filename: string = DEFAULT_JOURNAL_FILE) {}
+
+  /**
+   * Create an identifier grouping the updates of one operation
+   */
+  static newBatchId(): string {
+    return randomUUID().slice(0, 8);
+  }
+
+  get file(): string {
+    return this.filename;
+  }
+
+  /**
+   * Record one applied update; `undoes` marks updates made by `undo`
+   */
+  async record(
+    batchId: string,
+    repo: string,
+    before: RepositoryUpdateData,
+    after: RepositoryUpdateData,
+    undoes?: string
+  ): Promise<void> {
+    const entry: JournalEntry = {
+      batch_id: batchId,
+      timestamp: new Date().toISOString(),
+      repo,
+      before,
+      after,
+      ...(undoes && { undoes }),
+    };
+
+    await fs.mkdir(path.dirname(this.filename), { recursive: true });
+    await fs.appendFile(this.filename, JSON.stringify(entry) + "\n", "utf8");
+  }
+
+  /**
+   * Read all recorded entries, oldest first
+   */
+  async readEntries(): Promise<JournalEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filename, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    return content
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line) as JournalEntry);
+  }
+
+  /**
+   * Group entries into batches, oldest first
+   */
+  async listBatches(): Promise<JournalBatch[]> {
+    const batches: JournalBatch[] = [];
+
+    for (const entry of await this.readEntries()) {
+      let batch = batches.find((b) => b.id === entry.batch_id);
+      if (!batch) {
+        batch = {
+          id: entry.batch_id,
+          timestamp: entry.timestamp,
+          entries: [],
+          ...(entry.undoes && { undoes: entry.undoes }),
+        };
+        batches.push(batch);
+      }
+      batch.entries.push(entry);
+    }
+
+    return batches;
+  }
+
+  /**
+   * Find a batch by ID, or when no ID is given the most recent one that is
+   * neither an undo nor undone already, so repeated undos step further back
+   */
+  async getBatch(batchId?: string): Promise<JournalBatch | undefined> {
+    const batches = await this.listBatches();
+    if (batchId) {
+      return batches.find((b) => b.id === batchId);
+    }
+
+    const undone = new Set(batches.map((b) => b.undoes));
+    return [...batches].reverse().find((b) => !b.undoes && !undone.has(b.id));
+  }
+
+  /**
+   * The undo batch that rolled back a batch, if any
+   */
+  async findUndo(batchId: string): Promise<JournalBatch | undefined> {
+    return (await this.listBatches()).find((b) => b.undoes === batchId);
+  }
+}
+
+/**
+ * Build the updates that restore a batch's recorded before values, newest first
+ */
+export function buildUndoUpdates(batch: JournalBatch): Array<{
+  owner: string;
+  repo: string;
+  data: RepositoryUpdateData;
+}> {
+  return [...batch.entries].reverse().map((entry) => {
+    const [owner, repo] = entry.repo.split("/", 2);
+    return {
+      owner,
+      // A rename moves the repository, so undo must address the new name
+      repo: entry.after.name ?? repo,
+      data: entry.before,
+    };
+  });
+}
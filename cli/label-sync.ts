@@ -0,0 +1,382 @@
+import * as fs from "fs/promises";
+import { parse as parseYaml } from "yaml";
+import {
+  LabelDefinition,
+  MilestoneDefinition,
+  LabelSet,
+  GitHubLabel,
+  GitHubMilestone,
+  SyncChange,
+  RepositorySyncPlan,
+} from "./types.js";
+
+/** GitHub rejects label descriptions longer than this */
+const MAX_LABEL_DESCRIPTION = 100;
+
+function parseLabel(value: unknown, location: string): LabelDefinition {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`${location} must be an object with a name and color`);
+  }
+  const { name, color, description, ...rest } = value as Record<
+    string,
+    unknown
+  >;
+
+  const unknown = Object.keys(rest);
+  if (unknown.length > 0) {
+    throw new Error(`${location}.${unknown[0]} is not a supported setting`);
+  }
+  if (typeof name !== "string" || name.trim() === "") {
+    throw new Error(`${location}.name must be a non-empty string`);
+  }
+  // YAML reads unquoted colors such as 123456 as numbers
+  const hex = String(color ?? "").replace(/^#/, "");
+  if (!/^[0-9a-f]{6}$/i.test(hex)) {
+    throw new Error(
+      `${location}.color must be six hex digits such as "d73a4a", got "${color}"`
+    );
+  }
+  if (description !== undefined && typeof description !== "string") {
+    throw new Error(`${location}.description must be a string`);
+  }
+  if (
+    typeof description === "string" &&
+    description.length > MAX_LABEL_DESCRIPTION
+  ) {
+    throw new Error(
+      `${location}.description is longer than ${MAX_LABEL_DESCRIPTION} characters`
+    );
+  }
+
+  return {
+    name: name.trim(),
+    color: hex.toLowerCase(),
+    ...(description !== undefined && { description: description as string }),
+  };
+}
+
+function parseMilestone(value: unknown, location: string): MilestoneDefinition {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`${location} must be an object with a title`);
+  }
+  const { title, description, due_on, state, ...rest } = value as Record<
+    string,
+    unknown
+  >;
+
+  const unknown = Object.keys(rest);
+  if (unknown.length > 0) {
+    throw new Error(`${location}.${unknown[0]} is not a supported setting`);
+  }
+  if (typeof title !== "string" || title.trim() === "") {
+    throw new Error(`${location}.title must be a non-empty string`);
+  }
+  if (description !== undefined && typeof description !== "string") {
+    throw new Error(`${location}.description must be a string`);
+  }
+  if (
+    due_on !== undefined &&
+    (typeof due_on !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(due_on))
+  ) {
+    throw new Error(`${location}.due_on must be a date such as "2025-06-30"`);
+  }
+  if (state !== undefined && state !== "open" && state !== "closed") {
+    throw new Error(`${location}.state must be "open" or "closed"`);
+  }
+
+  return {
+    title: title.trim(),
+    ...(description !== undefined && { description: description as string }),
+    ...(due_on !== undefined && { due_on: due_on as string }),
+    ...(state !== undefined && { state: state as "open" | "closed" }),
+  };
+}
+
+function parseList<T>(
+  value: unknown,
+  key: string,
+  parse: (item: unknown, location: string) => T,
+  nameOf: (item: T) => string
+): T[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new Error(`"${key}" must be a list`);
+  }
+
+  const items = value.map((item, index) => parse(item, `${key}[${index}]`));
+  const seen = new Set<string>();
+  items.forEach((item) => {
+    // GitHub compares label names and milestone titles case-insensitively
+    const name = nameOf(item).toLowerCase();
+    if (seen.has(name)) {
+      throw new Error(`"${nameOf(item)}" appears more than once in ${key}`);
+    }
+    seen.add(name);
+  });
+  return items;
+}
+
+/**
+ * Load labels and milestones from a YAML (.yml/.yaml) or JSON file
+ */
+export async function loadLabelSet(filename: string): Promise<LabelSet> {
+  const content = await fs.readFile(filename, "utf8");
+  const extension = filename.toLowerCase().split(".").pop();
+
+  let raw: unknown;
+  try {
+    raw =
+      extension === "yml" || extension === "yaml"
+        ? parseYaml(content)
+        : JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse ${filename}: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`${filename} must have "labels" and/or "milestones" lists`);
+  }
+
+  const { labels, milestones } = raw as Record<string, unknown>;
+  if (labels === undefined && milestones === undefined) {
+    throw new Error(`${filename} must have "labels" and/or "milestones" lists`);
+  }
+
+  // A missing key leaves that kind alone, while an empty list syncs it to none
+  try {
+    return {
+      ...(labels !== undefined && {
+        labels: parseList(labels, "labels", parseLabel, (l) => l.name),
+      }),
+      ...(milestones !== undefined && {
+        milestones: parseList(
+          milestones,
+          "milestones",
+          parseMilestone,
+          (m) => m.title
+        ),
+      }),
+    };
+  } catch (error) {
+    throw new Error(`${filename}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Changes that make a repository's labels match the definitions; labels are
+ * matched by name regardless of case, and only deleted when `deleteExtra` is set
+ */
+export function planLabelChanges(
+  definitions: LabelDefinition[],
+  current: GitHubLabel[],
+  deleteExtra = false
+): SyncChange[] {
+  const changes: SyncChange[] = [];
+
+  definitions.forEach((label) => {
+    const existing = current.find(
+      (c) => c.name.toLowerCase() === label.name.toLowerCase()
+    );
+    if (!existing) {
+      changes.push({
+        kind: "label",
+        action: "create",
+        name: label.name,
+        changes: [],
+        label,
+      });
+      return;
+    }
+
+    const fields: string[] = [];
+    if (existing.name !== label.name) fields.push("name");
+    if (existing.color.toLowerCase() !== label.color) fields.push("color");
+    if (
+      label.description !== undefined &&
+      (existing.description ?? "") !== label.description
+    ) {
+      fields.push("description");
+    }
+
+    if (fields.length > 0) {
+      changes.push({
+        kind: "label",
+        action: "update",
+        name: label.name,
+        currentName: existing.name,
+        changes: fields,
+        label,
+      });
+    }
+  });
+
+  if (deleteExtra) {
+    current
+      .filter(
+        (c) =>
+          !definitions.some(
+            (d) => d.name.toLowerCase() === c.name.toLowerCase()
+          )
+      )
+      .forEach((c) =>
+        changes.push({
+          kind: "label",
+          action: "delete",
+          name: c.name,
+          changes: [],
+        })
+      );
+  }
+
+  return changes;
+}
+
+/**
+ * Changes that make a repository's milestones match the definitions, matched
+ * by title regardless of case
+ */
+export function planMilestoneChanges(
+  definitions: MilestoneDefinition[],
+  current: GitHubMilestone[],
+  deleteExtra = false
+): SyncChange[] {
+  const changes: SyncChange[] = [];
+
+  definitions.forEach((milestone) => {
+    const existing = current.find(
+      (c) => c.title.toLowerCase() === milestone.title.toLowerCase()
+    );
+    if (!existing) {
+      changes.push({
+        kind: "milestone",
+        action: "create",
+        name: milestone.title,
+        changes: [],
+        milestone,
+      });
+      return;
+    }
+
+    const fields: string[] = [];
+    if (existing.title !== milestone.title) fields.push("title");
+    if (
+      milestone.description !== undefined &&
+      (existing.description ?? "") !== milestone.description
+    ) {
+      fields.push("description");
+    }
+    if (
+      milestone.due_on !== undefined &&
+      existing.due_on?.slice(0, 10) !== milestone.due_on
+    ) {
+      fields.push("due_on");
+    }
+    if (milestone.state !== undefined && existing.state !== milestone.state) {
+      fields.push("state");
+    }
+
+    if (fields.length > 0) {
+      changes.push({
+        kind: "milestone",
+        action: "update",
+        name: milestone.title,
+        number: existing.number,
+        changes: fields,
+        milestone,
+      });
+    }
+  });
+
+  if (deleteExtra) {
+    current
+      .filter(
+        (c) =>
+          !definitions.some(
+            (d) => d.title.toLowerCase() === c.title.toLowerCase()
+          )
+      )
+      .forEach((c) =>
+        changes.push({
+          kind: "milestone",
+          action: "delete",
+          name: c.title,
+          number: c.number,
+          changes: [],
+        })
+      );
+  }
+
+  return changes;
+}
+
+/**
+ * The kinds a label set defines with their counts, e.g. "3 labels and 2 milestones"
+ */
+export function describeLabelSet(labelSet: LabelSet): string {
+  const parts: string[] = [];
+  if (labelSet.labels) parts.push(`${labelSet.labels.length} labels`);
+  if (labelSet.milestones) {
+    parts.push(`${labelSet.milestones.length} milestones`);
+  }
+  return parts.join(" and ");
+}
+
+/**
+ * Number of planned deletions across repositories
+ */
+export function countSyncDeletions(plans: RepositorySyncPlan[]): number {
+  return plans.reduce(
+    (sum, plan) =>
+      sum + plan.changes.filter((change) => change.action === "delete").length,
+    0
+  );
+}
+
+const ACTION_SYMBOLS = { create: "+", update: "~", delete: "-" };
+
+/**
+ * Format the planned label and milestone changes for every repository
+ */
+export function formatSyncPlan(plans: RepositorySyncPlan[]): string {
+  let content = "";
+
+  plans.forEach((plan) => {
+    if (plan.error) {
+      content += `⚠️  ${plan.owner}/${plan.repo}: ${plan.error}\n\n`;
+      return;
+    }
+    if (plan.changes.length === 0) return;
+
+    content += `${plan.owner}/${plan.repo}\n`;
+    plan.changes.forEach((change) => {
+      content += `    ${ACTION_SYMBOLS[change.action]} ${change.kind} "${
+        change.name
+      }"${
+        change.action === "update" ? ` (${change.changes.join(", ")})` : ""
+      }\n`;
+    });
+    content += "\n";
+  });
+
+  const changed = plans.filter((p) => p.changes.length > 0);
+  const count = (action: string) =>
+    changed.reduce(
+      (sum, p) => sum + p.changes.filter((c) => c.action === action).length,
+      0
+    );
+
+  content +=
+    changed.length === 0
+      ? "✅ No changes. Labels and milestones match the file.\n"
+      : `📋 ${changed.length} of ${
+          plans.length
+        } repositories need changes: ${count("create")} to create, ${count(
+          "update"
+        )} to update, ${count("delete")} to delete\n`;
+
+  return content;
+}
@@ -0,0 +1,81 @@
+import {
+  GitHubRepository,
+  StaleRepository,
+  LifecycleAction,
+  LifecycleReportEntry,
+} from "./types.js";
+
+export const DEFAULT_STALE_MONTHS = 12;
+
+/**
+ * Whole months between a date and now
+ */
+export function monthsSince(date: string, now: Date = new Date()): number {
+  const then = new Date(date);
+  let months =
+    (now.getUTCFullYear() - then.getUTCFullYear()) * 12 +
+    (now.getUTCMonth() - then.getUTCMonth());
+  if (now.getUTCDate() < then.getUTCDate()) months--;
+  return Math.max(0, months);
+}
+
+/**
+ * Last push and inactivity of a repository
+ */
+export function describeActivity(repo: GitHubRepository): StaleRepository {
+  const lastPush = repo.pushed_at || null;
+  return {
+    repo,
+    lastPush,
+    monthsInactive: lastPush ? monthsSince(lastPush) : null,
+  };
+}
+
+/**
+ * Short "last push" label such as "2023-01-05 (21 months ago)"
+ */
+export function formatLastActivity(entry: StaleRepository): string {
+  if (!entry.lastPush) return "never pushed";
+  return `${entry.lastPush.slice(0, 10)} (${entry.monthsInactive} month${
+    entry.monthsInactive === 1 ? "" : "s"
+  } ago)`;
+}
+
+/**
+ * Unarchived repositories with no push in at least `months` months, least
+ * recently pushed first; repositories never pushed to count as stale
+ */
+export function findStaleRepositories(
+  repositories: GitHubRepository[],
+  months: number = DEFAULT_STALE_MONTHS
+): StaleRepository[] {
+  return repositories
+    .filter((repo) => !repo.archived)
+    .map(describeActivity)
+    .filter(
+      (entry) => entry.monthsInactive === null || entry.monthsInactive >= months
+    )
+    .sort((a, b) => (a.lastPush ?? "").localeCompare(b.lastPush ?? ""));
+}
+
+/**
+ * Combine batch update results with the activity shown before archiving
+ */
+export function buildLifecycleReport(
+  action: LifecycleAction,
+  entries: StaleRepository[],
+  results: Array<{ success: boolean; repo: string; error?: string }>
+): LifecycleReportEntry[] {
+  return results.map((result) => {
+    const entry = entries.find(
+      (e) => `${e.repo.owner.login}/${e.repo.name}` === result.repo
+    );
+    return {
+      repo: result.repo,
+      action,
+      lastPush: entry?.lastPush ?? null,
+      success: result.success,
+      error: result.error,
+    };
+  });
+}
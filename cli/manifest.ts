@@ -0,0 +1,212 @@
+import * as fs from "fs/promises";
+import { parse as parseYaml } from "yaml";
+import { GitHubService } from "./github-service.js";
+import { formatFieldValue } from "./formatters.js";
+import {
+  GitHubRepository,
+  ManagedRepositorySettings,
+  RepositoryManifest,
+  ManifestChange,
+  ManifestPlan,
+  ManifestPlanEntry,
+} from "./types.js";
+
+const STRING_FIELDS = ["description", "homepage"] as const;
+const BOOLEAN_FIELDS = [
+  "private",
+  "has_issues",
+  "has_wiki",
+  "has_projects",
+] as const;
+
+/**
+ * Validate one repository's settings block from a manifest
+ */
+function parseSettings(
+  value: unknown,
+  location: string
+): ManagedRepositorySettings {
+  if (value === null || value === undefined) {
+    return {};
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`${location} must be an object`);
+  }
+
+  const settings: ManagedRepositorySettings = {};
+
+  for (const [key, fieldValue] of Object.entries(value)) {
+    if ((STRING_FIELDS as readonly string[]).includes(key)) {
+      if (typeof fieldValue !== "string") {
+        throw new Error(`${location}.${key} must be a string`);
+      }
+      settings[key as (typeof STRING_FIELDS)[number]] = fieldValue;
+    } else if ((BOOLEAN_FIELDS as readonly string[]).includes(key)) {
+      if (typeof fieldValue !== "boolean") {
+        throw new Error(`${location}.${key} must be true or false`);
+      }
+      settings[key as (typeof BOOLEAN_FIELDS)[number]] = fieldValue;
+    } else {
+      throw new Error(`${location}.${key} is not a supported setting`);
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Load a repository manifest from a YAML (.yml/.yaml) or JSON file
+ */
+export async function loadManifest(
+  filename: string
+): Promise<RepositoryManifest> {
+  const content = await fs.readFile(filename, "utf8");
+  const extension = filename.toLowerCase().split(".").pop();
+
+  let raw: unknown;
+  try {
+    raw =
+      extension === "yml" || extension === "yaml"
+        ? parseYaml(content)
+        : JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse manifest ${filename}: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Manifest ${filename} must be an object`);
+  }
+
+  const { defaults, repositories } = raw as Record<string, unknown>;
+
+  if (
+    !repositories ||
+    typeof repositories !== "object" ||
+    Array.isArray(repositories)
+  ) {
+    throw new Error(
+      `Manifest ${filename} must have a "repositories" map of repository names to settings`
+    );
+  }
+
+  const manifest: RepositoryManifest = {
+    defaults: parseSettings(defaults, "defaults"),
+    repositories: {},
+  };
+
+  for (const [name, settings] of Object.entries(repositories)) {
+    manifest.repositories[name] = parseSettings(
+      settings,
+      `repositories.${name}`
+    );
+  }
+
+  return manifest;
+}
+
+/**
+ * Diff the manifest against live repositories
+ */
+export function planManifest(
+  manifest: RepositoryManifest,
+  repositories: GitHubRepository[]
+): ManifestPlan {
+  const entries: ManifestPlanEntry[] = [];
+  const missing: string[] = [];
+
+  for (const [name, overrides] of Object.entries(manifest.repositories)) {
+    const repo = repositories.find((r) => r.name === name);
+    if (!repo) {
+      missing.push(name);
+      continue;
+    }
+
+    const desired: ManagedRepositorySettings = {
+      ...manifest.defaults,
+      ...overrides,
+    };
+    const changes: ManifestChange[] = [];
+
+    for (const field of STRING_FIELDS) {
+      const to = desired[field];
+      // GitHub reports unset text fields as null or ""
+      if (to !== undefined && (repo[field] || "") !== to) {
+        changes.push({ field, from: repo[field], to });
+      }
+    }
+
+    for (const field of BOOLEAN_FIELDS) {
+      const to = desired[field];
+      if (to !== undefined && repo[field] !== to) {
+        changes.push({ field, from: repo[field], to });
+      }
+    }
+
+    if (changes.length > 0) {
+      entries.push({
+        owner: repo.owner.login,
+        repo: repo.name,
+        changes,
+        data: Object.fromEntries(changes.map((c) => [c.field, c.to])),
+      });
+    }
+  }
+
+  return { entries, missing };
+}
+
+/**
+ * Format a manifest plan for display
+ */
+export function formatManifestPlan(plan: ManifestPlan): string {
+  let content = "";
+
+  if (plan.entries.length === 0) {
+    content += "✅ No changes. Repositories match the manifest.\n";
+  } else {
+    content += `📋 Planned changes for ${plan.entries.length} repositories:\n\n`;
+    plan.entries.forEach((entry) => {
+      content += `~ ${entry.owner}/${entry.repo}\n`;
+      entry.changes.forEach((change) => {
+        content += `    ${change.field}: ${formatFieldValue(
+          change.from
+        )} → ${formatFieldValue(change.to)}\n`;
+      });
+      content += "\n";
+    });
+  }
+
+  if (plan.missing.length > 0) {
+    content += `⚠️  ${
+      plan.missing.length
+    } repositories in the manifest were not found: ${plan.missing.join(
+      ", "
+    )}\n`;
+  }
+
+  return content;
+}
+
+/**
+ * Apply a manifest plan through the batch updater
+ */
+export async function applyManifestPlan(
+  githubService: GitHubService,
+  plan: ManifestPlan
+): Promise<Array<{ success: boolean; repo: string; error?: string }>> {
+  if (plan.entries.length === 0) {
+    return [];
+  }
+
+  return githubService.batchUpdateRepositories(
+    plan.entries.map((entry) => ({
+      owner: entry.owner,
+      repo: entry.repo,
+      data: entry.data,
+    }))
+  );
+}
@@ -0,0 +1,206 @@
+import {
+  GitHubRepository,
+  MoveAction,
+  RepositoryMove,
+  RepositoryMovePlan,
+  RepositoryMapping,
+} from "./types.js";
+import { fillTemplate } from "./repository-fields.js";
+
+export const RENAME_PATTERN_EXAMPLE = "legacy-{name}";
+
+/**
+ * Whether GitHub accepts a name: letters, digits, ".", "-" and "_", up to 100 characters
+ */
+export function isValidRepositoryName(name: string): boolean {
+  return /^[A-Za-z0-9._-]{1,100}$/.test(name) && name !== "." && name !== "..";
+}
+
+/**
+ * Fill {name} and {owner} in a rename pattern such as "legacy-{name}"
+ */
+export function applyRenamePattern(
+  pattern: string,
+  repo: GitHubRepository
+): string {
+  return fillTemplate(pattern, repo).trim();
+}
+
+function fullName(owner: string, name: string): string {
+  return `${owner}/${name}`;
+}
+
+/**
+ * Split planned moves into those that can be applied and conflicts: invalid
+ * names, names already taken by another repository, or two repositories moving
+ * to the same name. Renaming into a name that another selected repository is
+ * leaving also counts as taken, since batch updates run in no fixed order.
+ */
+function planMoves(
+  action: MoveAction,
+  candidates: Array<{ repo: GitHubRepository; to: string }>,
+  existing: GitHubRepository[]
+): Omit<RepositoryMovePlan, "unchanged"> {
+  const taken = new Map(
+    existing.map((repo) => [
+      fullName(repo.owner.login, repo.name).toLowerCase(),
+      repo,
+    ])
+  );
+  const targets = new Set<string>();
+  const plan: Omit<RepositoryMovePlan, "unchanged"> = {
+    action,
+    moves: [],
+    conflicts: [],
+  };
+
+  candidates.forEach(({ repo, to }) => {
+    const from = fullName(repo.owner.login, repo.name);
+    const [, name] = to.split("/", 2);
+    const occupant = taken.get(to.toLowerCase());
+
+    let reason: string | undefined;
+    if (!isValidRepositoryName(name)) {
+      reason = `"${name}" is not a valid repository name`;
+    } else if (occupant && occupant.id !== repo.id) {
+      reason = `${fullName(
+        occupant.owner.login,
+        occupant.name
+      )} already exists`;
+    } else if (targets.has(to.toLowerCase())) {
+      reason = "another selected repository moves to the same name";
+    }
+
+    if (reason) {
+      plan.conflicts.push({ from, to, reason });
+    } else {
+      targets.add(to.toLowerCase());
+      plan.moves.push({ repo, from, to });
+    }
+  });
+
+  return plan;
+}
+
+/**
+ * Plan renaming the selected repositories with a pattern, checking the new
+ * names against every known repository
+ */
+export function planRenames(
+  selected: GitHubRepository[],
+  existing: GitHubRepository[],
+  pattern: string
+): RepositoryMovePlan {
+  const unchanged: string[] = [];
+  const candidates: Array<{ repo: GitHubRepository; to: string }> = [];
+
+  selected.forEach((repo) => {
+    const name = applyRenamePattern(pattern, repo);
+    if (name === repo.name) {
+      unchanged.push(repo.name);
+    } else {
+      candidates.push({ repo, to: fullName(repo.owner.login, name) });
+    }
+  });
+
+  return { ...planMoves("rename", candidates, existing), unchanged };
+}
+
+/**
+ * Plan transferring the selected repositories to another user or organization
+ */
+export function planTransfers(
+  selected: GitHubRepository[],
+  newOwner: string
+): RepositoryMovePlan {
+  const unchanged = selected
+    .filter((repo) => repo.owner.login.toLowerCase() === newOwner.toLowerCase())
+    .map((repo) => repo.name);
+
+  return {
+    ...planMoves(
+      "transfer",
+      selected
+        .filter((repo) => !unchanged.includes(repo.name))
+        .map((repo) => ({ repo, to: fullName(newOwner, repo.name) })),
+      []
+    ),
+    unchanged,
+  };
+}
+
+/**
+ * Move planned targets that already exist on GitHub into the conflicts; this
+ * catches repositories outside the fetched list, such as another owner's
+ */
+export async function checkMoveTargets(
+  plan: RepositoryMovePlan,
+  exists: (owner: string, name: string) => Promise<boolean>
+): Promise<RepositoryMovePlan> {
+  const moves: RepositoryMove[] = [];
+  const conflicts = [...plan.conflicts];
+
+  for (const move of plan.moves) {
+    const [owner, name] = move.to.split("/", 2);
+    // A change of case renames the repository onto itself
+    const sameRepository = move.from.toLowerCase() === move.to.toLowerCase();
+
+    if (!sameRepository && (await exists(owner, name))) {
+      conflicts.push({
+        from: move.from,
+        to: move.to,
+        reason: `${move.to} already exists`,
+      });
+    } else {
+      moves.push(move);
+    }
+  }
+
+  return { ...plan, moves, conflicts };
+}
+
+/**
+ * Format a rename/transfer plan as a preview
+ */
+export function formatMovePlan(plan: RepositoryMovePlan): string {
+  const verb = plan.action === "rename" ? "rename" : "transfer";
+  let content = `📋 ${plan.moves.length} repositories to ${verb}:\n`;
+
+  plan.moves.forEach(({ from, to }) => {
+    content += `   • ${from} → ${to}\n`;
+  });
+
+  if (plan.conflicts.length > 0) {
+    content += `\n⚠️  ${plan.conflicts.length} conflicts:\n`;
+    plan.conflicts.forEach(({ from, to, reason }) => {
+      content += `   • ${from} → ${to}: ${reason}\n`;
+    });
+  }
+
+  if (plan.unchanged.length > 0) {
+    content += `\n⏭️  Unchanged: ${plan.unchanged.join(", ")}\n`;
+  }
+
+  return content;
+}
+
+/**
+ * Combine batch results with the planned moves into old → new mappings
+ */
+export function buildRepositoryMappings(
+  plan: RepositoryMovePlan,
+  results: Array<{ success: boolean; repo: string; error?: string }>
+): RepositoryMapping[] {
+  return plan.moves.map(({ from, to }) => {
+    const result = results.find((r) => r.repo === from);
+    return {
+      action: plan.action,
+      from,
+      to,
+      from_url: `https://github.com/${from}`,
+      to_url: `https://github.com/${to}`,
+      success: result?.success ?? false,
+      error: result?.error,
+    };
+  });
+}
@@ -0,0 +1,107 @@
+import {
+  GitHubRepository,
+  RepositoryVisibility,
+  RepositoryField,
+} from "./types.js";
+
+/**
+ * SPDX identifier of the detected license, falling back to its name for
+ * licenses GitHub cannot map ("NOASSERTION"), or null when none was found
+ */
+export function getLicense(repo: GitHubRepository): string | null {
+  if (!repo.license) return null;
+
+  const spdx = repo.license.spdx_id;
+  return spdx && spdx !== "NOASSERTION" ? spdx : repo.license.name;
+}
+
+/**
+ * Visibility as reported by GitHub, derived from `private` for older payloads
+ */
+export function getVisibility(repo: GitHubRepository): RepositoryVisibility {
+  return repo.visibility ?? (repo.private ? "private" : "public");
+}
+
+export function getTopics(repo: GitHubRepository): string[] {
+  return repo.topics ?? [];
+}
+
+/**
+ * Fill {name}, {owner} and {description} in a template with a repository's
+ * values
+ */
+export function fillTemplate(template: string, repo: GitHubRepository): string {
+  return template
+    .replace(/{name}/g, repo.name)
+    .replace(/{owner}/g, repo.owner.login)
+    .replace(/{description}/g, repo.description ?? "");
+}
+
+/**
+ * Labels for the archived, disabled, fork and template flags that are set
+ */
+export function getRepositoryFlags(repo: GitHubRepository): string[] {
+  const flags: string[] = [];
+  if (repo.archived) flags.push("archived");
+  if (repo.disabled) flags.push("disabled");
+  if (repo.fork) flags.push("fork");
+  if (repo.is_template) flags.push("template");
+  return flags;
+}
+
+/**
+ * Fields that filters and sorting can refer to by name
+ */
+export const REPOSITORY_FIELDS: Record<string, RepositoryField> = {
+  name: { type: "string", value: (repo) => repo.name },
+  description: { type: "string", value: (repo) => repo.description },
+  homepage: { type: "string", value: (repo) => repo.homepage },
+  language: { type: "string", value: (repo) => repo.language },
+  license: { type: "string", value: getLicense },
+  visibility: { type: "string", value: getVisibility },
+  default_branch: { type: "string", value: (repo) => repo.default_branch },
+  topics: { type: "list", value: getTopics },
+  stars: { type: "number", value: (repo) => repo.stargazers_count },
+  forks: { type: "number", value: (repo) => repo.forks_count },
+  open_issues: { type: "number", value: (repo) => repo.open_issues_count },
+  watchers: { type: "number", value: (repo) => repo.watchers_count },
+  size: { type: "number", value: (repo) => repo.size },
+  private: { type: "boolean", value: (repo) => repo.private },
+  archived: { type: "boolean", value: (repo) => repo.archived },
+  disabled: { type: "boolean", value: (repo) => repo.disabled },
+  fork: { type: "boolean", value: (repo) => repo.fork },
+  template: { type: "boolean", value: (repo) => repo.is_template ?? false },
+  created: { type: "date", value: (repo) => repo.created_at },
+  updated: { type: "date", value: (repo) => repo.updated_at },
+  pushed: { type: "date", value: (repo) => repo.pushed_at },
+};
+
+/**
+ * Alternative names accepted for fields
+ */
+const FIELD_ALIASES: Record<string, string> = {
+  full_name: "name",
+  topic: "topics",
+  branch: "default_branch",
+  issues: "open_issues",
+  is_template: "template",
+  created_at: "created",
+  updated_at: "updated",
+  pushed_at: "pushed",
+};
+
+/**
+ * Look up a field by name or alias, case-insensitively
+ */
+export function resolveRepositoryField(
+  name: string
+): { name: string; field: RepositoryField } | undefined {
+  const key = name.toLowerCase();
+  // Own keys only, so names such as "constructor" are not fields
+  const canonical = Object.hasOwn(FIELD_ALIASES, key)
+    ? FIELD_ALIASES[key]
+    : key;
+  return Object.hasOwn(REPOSITORY_FIELDS, canonical)
+    ? { name: canonical, field: REPOSITORY_FIELDS[canonical] }
+    : undefined;
+}
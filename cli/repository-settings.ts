@@ -0,0 +1,228 @@
+import * as fs from "fs/promises";
+import { parse as parseYaml } from "yaml";
+import { formatFieldValue } from "./formatters.js";
+import {
+  GitHubRepository,
+  RepositoryUpdateData,
+  AnalysisRule,
+  BooleanRepositorySetting,
+  SettingsBaseline,
+  SettingsDrift,
+  SettingsCommandOptions,
+} from "./types.js";
+
+/**
+ * Boolean settings with their labels and the option names that set them
+ */
+export const BOOLEAN_SETTINGS: Array<{
+  key: BooleanRepositorySetting;
+  label: string;
+  option: keyof SettingsCommandOptions;
+  /** Only present when fetching a single repository */
+  detailsOnly?: boolean;
+}> = [
+  { key: "has_issues", label: "Issues", option: "issues" },
+  { key: "has_wiki", label: "Wiki", option: "wiki" },
+  { key: "has_projects", label: "Projects", option: "projects" },
+  { key: "has_discussions", label: "Discussions", option: "discussions" },
+  {
+    key: "allow_squash_merge",
+    label: "Squash merging",
+    option: "squashMerge",
+    detailsOnly: true,
+  },
+  {
+    key: "allow_merge_commit",
+    label: "Merge commits",
+    option: "mergeCommit",
+    detailsOnly: true,
+  },
+  {
+    key: "allow_rebase_merge",
+    label: "Rebase merging",
+    option: "rebaseMerge",
+    detailsOnly: true,
+  },
+  {
+    key: "allow_auto_merge",
+    label: "Auto-merge",
+    option: "autoMerge",
+    detailsOnly: true,
+  },
+  {
+    key: "delete_branch_on_merge",
+    label: "Automatic head branch deletion",
+    option: "deleteBranchOnMerge",
+    detailsOnly: true,
+  },
+  { key: "is_template", label: "Template repository", option: "template" },
+];
+
+const MERGE_METHODS: BooleanRepositorySetting[] = [
+  "allow_squash_merge",
+  "allow_merge_commit",
+  "allow_rebase_merge",
+];
+
+/**
+ * Collect the settings given as command-line flags
+ */
+export function settingsFromOptions(
+  options: SettingsCommandOptions
+): RepositoryUpdateData {
+  const data: RepositoryUpdateData = {};
+
+  BOOLEAN_SETTINGS.forEach(({ key, option }) => {
+    const value = options[option];
+    if (typeof value === "boolean") {
+      data[key] = value;
+    }
+  });
+  if (options.defaultBranch !== undefined) {
+    data.default_branch = options.defaultBranch;
+  }
+
+  return data;
+}
+
+/**
+ * Whether an update turns off any merge method
+ */
+export function disablesMergeMethod(data: RepositoryUpdateData): boolean {
+  return MERGE_METHODS.some((key) => data[key] === false);
+}
+
+/**
+ * GitHub requires at least one merge method; reject updates that would
+ * disable the last one. Unknown current values count as enabled.
+ */
+export function validateMergeMethods(
+  data: RepositoryUpdateData,
+  current?: GitHubRepository
+): void {
+  const enabled = MERGE_METHODS.filter(
+    (key) => (data[key] ?? current?.[key] ?? true) === true
+  );
+  if (enabled.length === 0) {
+    throw new Error(
+      "At least one merge method (squash, merge commit or rebase) must stay enabled"
+    );
+  }
+}
+
+/**
+ * Load a settings baseline from a YAML (.yml/.yaml) or JSON file
+ */
+export async function loadSettingsBaseline(
+  filename: string
+): Promise<SettingsBaseline> {
+  const content = await fs.readFile(filename, "utf8");
+  const extension = filename.toLowerCase().split(".").pop();
+
+  let raw: unknown;
+  try {
+    raw =
+      extension === "yml" || extension === "yaml"
+        ? parseYaml(content)
+        : JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse baseline ${filename}: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Baseline ${filename} must be an object of settings`);
+  }
+
+  const baseline: SettingsBaseline = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === "default_branch") {
+      if (typeof value !== "string" || value.trim() === "") {
+        throw new Error(`${filename}: default_branch must be a branch name`);
+      }
+      baseline.default_branch = value;
+    } else if (BOOLEAN_SETTINGS.some((setting) => setting.key === key)) {
+      if (typeof value !== "boolean") {
+        throw new Error(`${filename}: ${key} must be true or false`);
+      }
+      baseline[key as BooleanRepositorySetting] = value;
+    } else {
+      throw new Error(
+        `${filename}: ${key} is not a supported setting (use ${[
+          ...BOOLEAN_SETTINGS.map((setting) => setting.key),
+          "default_branch",
+        ].join(", ")})`
+      );
+    }
+  }
+
+  validateMergeMethods(baseline);
+  return baseline;
+}
+
+/**
+ * Settings of a repository that differ from the baseline; settings missing
+ * from the repository data are skipped rather than guessed
+ */
+export function findSettingsDrift(
+  repo: GitHubRepository,
+  baseline: SettingsBaseline
+): SettingsDrift[] {
+  const drift: SettingsDrift[] = [];
+
+  for (const [field, expected] of Object.entries(baseline) as Array<
+    [keyof SettingsBaseline, boolean | string]
+  >) {
+    const actual = repo[field];
+    if (actual !== undefined && actual !== null && actual !== expected) {
+      drift.push({ field, expected, actual });
+    }
+  }
+
+  return drift;
+}
+
+/**
+ * Analysis rule flagging repositories whose settings differ from a baseline,
+ * with the baseline values as auto-fix
+ */
+export function createBaselineRule(baseline: SettingsBaseline): AnalysisRule {
+  const detailsOnly = BOOLEAN_SETTINGS.filter((s) => s.detailsOnly).map(
+    (s) => s.key
+  );
+  const driftOf = (
+    repo: GitHubRepository,
+    details: Map<number, GitHubRepository>
+  ) => findSettingsDrift(details.get(repo.id) ?? repo, baseline);
+
+  return {
+    id: "settings-drift",
+    title: "repositories whose settings differ from the baseline",
+    severity: "warning",
+    requiresDetails: Object.keys(baseline).some((key) =>
+      detailsOnly.includes(key as BooleanRepositorySetting)
+    ),
+    // Archived repositories are read-only, so their drift cannot be fixed
+    check: (repo, context) =>
+      !repo.archived && driftOf(repo, context.repositoryDetails).length > 0,
+    describe: (repo, context) =>
+      `Settings: ${driftOf(repo, context.repositoryDetails)
+        .map(
+          ({ field, expected, actual }) =>
+            `${field} ${formatFieldValue(actual)} → ${formatFieldValue(
+              expected
+            )}`
+        )
+        .join(", ")}`,
+    autoFix: (repo, context) =>
+      Object.fromEntries(
+        driftOf(repo, context.repositoryDetails).map(({ field, expected }) => [
+          field,
+          expected,
+        ])
+      ),
+  };
+}
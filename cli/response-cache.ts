@@ -0,0 +1,64 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { createHash } from "crypto";
+import { CachedResponse } from "./types.js";
+
+/**
+ * Default cache location, shared by every run on this machine
+ */
+export const DEFAULT_CACHE_DIR = path.join(
+  os.homedir(),
+  ".github-cli",
+  "cache"
+);
+
+/**
+ * GET responses stored on disk with their validators (ETag, Last-Modified)
+ * so later runs can revalidate them with conditional requests
+ */
+export class ResponseCache {
+  constructor(private directory: string = DEFAULT_CACHE_DIR) {}
+
+  get dir(): string {
+    return this.directory;
+  }
+
+  /**
+   * Cache key for an endpoint as seen by one user; tokens are hashed, never stored
+   */
+  static key(url: string, token?: string): string {
+    const identity = token
+      ? createHash("sha256").update(token).digest("hex")
+      : "anonymous";
+    return createHash("sha256").update(`${identity}\nGET ${url}`).digest("hex");
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+
+  /**
+   * Read a cached response, treating unreadable entries as missing
+   */
+  async get(key: string): Promise<CachedResponse | undefined> {
+    try {
+      return JSON.parse(
+        await fs.readFile(this.fileFor(key), "utf8")
+      ) as CachedResponse;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a response, replacing any previous entry for the key
+   */
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write then rename so concurrent runs never read a partial entry
+    const temporary = `${this.fileFor(key)}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(entry), "utf8");
+    await fs.rename(temporary, this.fileFor(key));
+  }
+}
@@ -0,0 +1,303 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { formatAsJson, formatFieldValue } from "./formatters.js";
+import {
+  GitHubRepository,
+  FormattedRepository,
+  FormattedRepositoryData,
+  SnapshotInfo,
+  SnapshotField,
+  SnapshotRepositoryChange,
+  SnapshotDiff,
+} from "./types.js";
+
+/**
+ * Default snapshot store, one subdirectory per owner
+ */
+export const DEFAULT_SNAPSHOT_DIR = path.join(
+  os.homedir(),
+  ".github-cli",
+  "snapshots"
+);
+
+const SNAPSHOT_FIELDS: SnapshotField[] = [
+  "private",
+  "stars",
+  "forks",
+  "description",
+  "homepage",
+  "language",
+];
+
+/**
+ * Timestamped JSON exports kept on disk so they can be compared later
+ */
+export class SnapshotStore {
+  constructor(private directory: string = DEFAULT_SNAPSHOT_DIR) {}
+
+  get dir(): string {
+    return this.directory;
+  }
+
+  /**
+   * Write the repositories as a new snapshot for their owner
+   */
+  async save(
+    repos: GitHubRepository[],
+    owner: string,
+    date: Date = new Date()
+  ): Promise<SnapshotInfo> {
+    // Colons are not allowed in Windows filenames; milliseconds keep
+    // snapshots taken in the same second apart
+    const id = date.toISOString().replace(/:/g, "-");
+    const file = path.join(this.directory, owner, `${id}.json`);
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    try {
+      await fs.writeFile(file, formatAsJson(repos, owner), {
+        encoding: "utf8",
+        flag: "wx",
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+        throw new Error(`Snapshot ${id} of ${owner} already exists`);
+      }
+      throw error;
+    }
+
+    return { owner, id, timestamp: idToTimestamp(id), file };
+  }
+
+  /**
+   * Owners with at least one snapshot
+   */
+  async listOwners(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.directory, { withFileTypes: true });
+      return entries
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name)
+        .sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Snapshots of one owner, oldest first
+   */
+  async list(owner: string): Promise<SnapshotInfo[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(path.join(this.directory, owner));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    return files
+      .filter((file) => file.endsWith(".json"))
+      .sort()
+      .map((file) => {
+        const id = file.slice(0, -".json".length);
+        return {
+          owner,
+          id,
+          timestamp: idToTimestamp(id),
+          file: path.join(this.directory, owner, file),
+        };
+      });
+  }
+
+  /**
+   * Find a snapshot by "latest", "previous" or an ID prefix such as a date;
+   * a prefix matching several snapshots picks the newest of them
+   */
+  async find(owner: string, ref: string): Promise<SnapshotInfo | undefined> {
+    const snapshots = await this.list(owner);
+
+    if (ref === "latest") {
+      return snapshots[snapshots.length - 1];
+    }
+    if (ref === "previous") {
+      return snapshots[snapshots.length - 2];
+    }
+
+    const prefix = ref.replace(/:/g, "-");
+    return snapshots.filter((s) => s.id.startsWith(prefix)).pop();
+  }
+}
+
+function idToTimestamp(id: string): string {
+  return id.replace(/T(\d{2})-(\d{2})-(\d{2})/, "T$1:$2:$3");
+}
+
+/**
+ * Read a snapshot or any JSON export written by this tool
+ */
+export async function readSnapshot(
+  file: string
+): Promise<FormattedRepositoryData> {
+  const data = JSON.parse(await fs.readFile(file, "utf8"));
+
+  if (!data || !Array.isArray(data.repositories)) {
+    throw new Error(`${file} is not a JSON repository export`);
+  }
+  return data as FormattedRepositoryData;
+}
+
+function totals(label: string, data: FormattedRepositoryData) {
+  return {
+    label,
+    total: data.repositories.length,
+    stars: data.repositories.reduce((sum, repo) => sum + repo.stars, 0),
+    forks: data.repositories.reduce((sum, repo) => sum + repo.forks, 0),
+  };
+}
+
+/**
+ * Pair a removed repository with an added one when they are the same repository
+ * under a new name: same ID, or same creation time for exports without IDs
+ */
+function isSameRepository(
+  before: FormattedRepository,
+  after: FormattedRepository
+): boolean {
+  if (before.id !== undefined && after.id !== undefined) {
+    return before.id === after.id;
+  }
+  return before.created_at === after.created_at;
+}
+
+/**
+ * Compare two snapshots repository by repository
+ */
+export function diffSnapshots(
+  from: { label: string; data: FormattedRepositoryData },
+  to: { label: string; data: FormattedRepositoryData }
+): SnapshotDiff {
+  const beforeByName = new Map(from.data.repositories.map((r) => [r.name, r]));
+  const afterByName = new Map(to.data.repositories.map((r) => [r.name, r]));
+
+  let removed = from.data.repositories.filter((r) => !afterByName.has(r.name));
+  let added = to.data.repositories.filter((r) => !beforeByName.has(r.name));
+
+  const pairs: Array<[FormattedRepository, FormattedRepository]> = [];
+  from.data.repositories.forEach((r) => {
+    const after = afterByName.get(r.name);
+    if (after) pairs.push([r, after]);
+  });
+
+  const renamed: SnapshotDiff["renamed"] = [];
+  removed.forEach((before) => {
+    const matches = added.filter((after) => isSameRepository(before, after));
+    if (matches.length === 1) {
+      renamed.push({ from: before.name, to: matches[0].name });
+      pairs.push([before, matches[0]]);
+    }
+  });
+  removed = removed.filter((r) => !renamed.some((n) => n.from === r.name));
+  added = added.filter((r) => !renamed.some((n) => n.to === r.name));
+
+  const changed: SnapshotRepositoryChange[] = [];
+  pairs.forEach(([before, after]) => {
+    const changes: SnapshotRepositoryChange["changes"] = {};
+    SNAPSHOT_FIELDS.forEach((field) => {
+      // Older exports store missing values as either null or ""
+      const previous = before[field] === "" ? null : before[field];
+      const current = after[field] === "" ? null : after[field];
+      if (previous !== current) {
+        changes[field] = { before: previous, after: current };
+      }
+    });
+    if (Object.keys(changes).length > 0) {
+      changed.push({ name: after.name, changes });
+    }
+  });
+
+  return {
+    from: totals(from.label, from.data),
+    to: totals(to.label, to.data),
+    added: added.map((r) => r.name),
+    removed: removed.map((r) => r.name),
+    renamed,
+    changed: changed.sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+function formatDelta(before: number, after: number): string {
+  const delta = after - before;
+  return `${before} → ${after} (${delta >= 0 ? "+" : ""}${delta})`;
+}
+
+/**
+ * Format a snapshot diff as a text report
+ */
+export function formatSnapshotDiff(diff: SnapshotDiff): string {
+  let content = `📊 Changes from ${diff.from.label} to ${diff.to.label}\n`;
+  content += `${"=".repeat(50)}\n\n`;
+  content += `Repositories: ${formatDelta(diff.from.total, diff.to.total)}\n`;
+  content += `Stars: ${formatDelta(diff.from.stars, diff.to.stars)}\n`;
+  content += `Forks: ${formatDelta(diff.from.forks, diff.to.forks)}\n`;
+
+  if (diff.added.length > 0) {
+    content += `\n➕ Added (${diff.added.length}):\n`;
+    diff.added.forEach((name) => (content += `   • ${name}\n`));
+  }
+  if (diff.removed.length > 0) {
+    content += `\n➖ Removed (${diff.removed.length}):\n`;
+    diff.removed.forEach((name) => (content += `   • ${name}\n`));
+  }
+  if (diff.renamed.length > 0) {
+    content += `\n🏷️  Renamed (${diff.renamed.length}):\n`;
+    diff.renamed.forEach(
+      ({ from, to }) => (content += `   • ${from} → ${to}\n`)
+    );
+  }
+  if (diff.changed.length > 0) {
+    content += `\n✏️  Changed (${diff.changed.length}):\n`;
+    diff.changed.forEach(({ name, changes }) => {
+      content += `   • ${name}\n`;
+      const { private: visibility, stars, forks, ...text } = changes;
+      if (visibility) {
+        content += `       visibility: ${
+          visibility.before ? "private" : "public"
+        } → ${visibility.after ? "private" : "public"}\n`;
+      }
+      if (stars) {
+        content += `       stars: ${formatDelta(
+          stars.before as number,
+          stars.after as number
+        )}\n`;
+      }
+      if (forks) {
+        content += `       forks: ${formatDelta(
+          forks.before as number,
+          forks.after as number
+        )}\n`;
+      }
+      Object.entries(text).forEach(([field, change]) => {
+        content += `       ${field}: ${formatFieldValue(
+          change!.before
+        )} → ${formatFieldValue(change!.after)}\n`;
+      });
+    });
+  }
+
+  if (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.renamed.length === 0 &&
+    diff.changed.length === 0
+  ) {
+    content += "\n✅ No repository changes\n";
+  }
+
+  return content;
+}
@@ -0,0 +1,124 @@
+import {
+  GitHubRepository,
+  SortKey,
+  SortOption,
+  FetchRepositoriesOptions,
+} from "./types.js";
+import {
+  REPOSITORY_FIELDS,
+  resolveRepositoryField,
+} from "./repository-fields.js";
+
+/**
+ * Fields the listing API can sort by itself, so --limit keeps the right repositories
+ */
+const API_SORT_FIELDS: Record<string, SortOption> = {
+  created: "created",
+  updated: "updated",
+  pushed: "pushed",
+  name: "full_name",
+};
+
+/**
+ * Parse comma-separated sort keys such as "language,-stars"; a leading "-"
+ * sorts that key in descending order and a leading "+" in ascending order.
+ * Dates sort newest first unless prefixed with "+", as the API does.
+ */
+export function parseSortKeys(value: string): SortKey[] {
+  const keys = value
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean);
+
+  if (keys.length === 0) {
+    throw new Error("At least one sort field is required");
+  }
+
+  return keys.map((key) => {
+    const name = key.replace(/^[-+]/, "");
+    const resolved = resolveRepositoryField(name);
+
+    if (!resolved || resolved.field.type === "list") {
+      throw new Error(
+        `Cannot sort by "${name}" (available: ${Object.entries(
+          REPOSITORY_FIELDS
+        )
+          .filter(([, field]) => field.type !== "list")
+          .map(([field]) => field)
+          .join(", ")})`
+      );
+    }
+
+    const descending =
+      key.startsWith("-") ||
+      (!key.startsWith("+") && resolved.field.type === "date");
+    return { field: resolved.name, descending };
+  });
+}
+
+function compareValues(
+  a: string | number | boolean | null,
+  b: string | number | boolean | null,
+  type: string
+): number {
+  if (type === "date") {
+    return Date.parse(String(a)) - Date.parse(String(b));
+  }
+  if (typeof a === "string" && typeof b === "string") {
+    return a.localeCompare(b, undefined, { sensitivity: "base" });
+  }
+  return Number(a) - Number(b);
+}
+
+/**
+ * Sort repositories by several keys; missing values always sort last
+ */
+export function sortRepositories(
+  repositories: GitHubRepository[],
+  keys: SortKey[] = []
+): GitHubRepository[] {
+  if (keys.length === 0) return repositories;
+
+  return [...repositories].sort((a, b) => {
+    for (const { field, descending } of keys) {
+      const { type, value } = REPOSITORY_FIELDS[field];
+      const left = value(a) as string | number | boolean | null;
+      const right = value(b) as string | number | boolean | null;
+
+      const leftMissing = left === null || left === "";
+      const rightMissing = right === null || right === "";
+      if (leftMissing || rightMissing) {
+        if (leftMissing && rightMissing) continue;
+        return leftMissing ? 1 : -1;
+      }
+
+      const result = compareValues(left, right, type);
+      if (result !== 0) return descending ? -result : result;
+    }
+    return 0;
+  });
+}
+
+/**
+ * API sort matching the first key when the listing endpoint supports it
+ */
+export function apiSortFor(
+  keys: SortKey[] = []
+): Pick<FetchRepositoriesOptions, "sort" | "direction"> {
+  const sort = keys.length > 0 ? API_SORT_FIELDS[keys[0].field] : undefined;
+  return sort ? { sort, direction: keys[0].descending ? "desc" : "asc" } : {};
+}
+
+/**
+ * How many repositories to fetch for --limit. When the listing API cannot
+ * sort by the first key, every repository is fetched so the limit can be
+ * applied after sorting locally.
+ */
+export function fetchLimitFor(
+  keys: SortKey[] = [],
+  limit?: number
+): number | undefined {
+  return keys.length === 0 || API_SORT_FIELDS[keys[0].field]
+    ? limit
+    : undefined;
+}
@@ -0,0 +1,120 @@
+import { GitHubRepository, TopicEdit } from "./types.js";
+import { getTopics } from "./repository-fields.js";
+
+/**
+ * GitHub's limits: at most 20 topics of up to 50 characters each
+ */
+export const MAX_TOPICS = 20;
+const MAX_TOPIC_LENGTH = 50;
+
+/**
+ * Languages whose topic GitHub spells differently from the language name
+ */
+const LANGUAGE_TOPICS: Record<string, string> = {
+  "c++": "cpp",
+  "c#": "csharp",
+  "f#": "fsharp",
+  "objective-c++": "objective-cpp",
+};
+
+/**
+ * Lowercase a topic and reduce it to the letters, numbers and hyphens GitHub accepts
+ */
+export function normalizeTopic(value: string): string {
+  const lower = value.trim().toLowerCase();
+
+  return (
+    Object.hasOwn(LANGUAGE_TOPICS, lower) ? LANGUAGE_TOPICS[lower] : lower
+  )
+    .replace(/[\s_.]+/g, "-")
+    .replace(/[^a-z0-9-]/g, "")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, MAX_TOPIC_LENGTH);
+}
+
+/**
+ * Split a comma-separated topic list from the command line or a prompt
+ */
+export function parseTopicList(value: string): string[] {
+  return value
+    .split(",")
+    .map((topic) => topic.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Fill {name}, {owner} and {language} for a repository; undefined when a
+ * placeholder has no value (e.g. no detected language)
+ */
+export function applyTopicTemplate(
+  template: string,
+  repo: GitHubRepository
+): string | undefined {
+  let missing = false;
+  const values: Record<string, string | null> = {
+    name: repo.name,
+    owner: repo.owner.login,
+    language: repo.language,
+  };
+
+  const topic = normalizeTopic(
+    template.replace(/{(name|owner|language)}/g, (_, key: string) => {
+      const value = values[key];
+      if (!value) missing = true;
+      return value ?? "";
+    })
+  );
+
+  return missing || topic === "" ? undefined : topic;
+}
+
+function resolveTopics(
+  templates: string[] | undefined,
+  repo: GitHubRepository
+): string[] {
+  return (templates ?? [])
+    .map((template) => applyTopicTemplate(template, repo))
+    .filter((topic): topic is string => topic !== undefined);
+}
+
+/**
+ * New topic list for a repository (replace, then add, then remove), or
+ * undefined when the edit changes nothing
+ */
+export function planTopicEdit(
+  repo: GitHubRepository,
+  edit: TopicEdit
+): string[] | undefined {
+  const current = getTopics(repo);
+  let topics = edit.replace ? resolveTopics(edit.replace, repo) : [...current];
+
+  resolveTopics(edit.add, repo).forEach((topic) => {
+    if (!topics.includes(topic)) topics.push(topic);
+  });
+
+  const removed = resolveTopics(edit.remove, repo);
+  topics = [...new Set(topics)].filter((topic) => !removed.includes(topic));
+
+  if (topics.length > MAX_TOPICS) {
+    throw new Error(
+      `${repo.name} would have ${topics.length} topics; GitHub allows at most ${MAX_TOPICS}`
+    );
+  }
+
+  const unchanged =
+    topics.length === current.length &&
+    topics.every((topic) => current.includes(topic));
+  return unchanged ? undefined : topics;
+}
+
+/**
+ * Whether a topic edit has anything to do
+ */
+export function hasTopicEdit(edit: TopicEdit): boolean {
+  return (
+    edit.replace !== undefined ||
+    (edit.add?.length ?? 0) > 0 ||
+    (edit.remove?.length ?? 0) > 0
+  );
+}
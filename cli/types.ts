@@ -13,6 +13,29 @@ export interface GitHubRepository {
   has_issues?: boolean;
   has_wiki?: boolean;
   has_projects?: boolean;
+  has_discussions?: boolean;
+  /** Merge settings are only included when fetching a single repository */
+  allow_squash_merge?: boolean;
+  allow_merge_commit?: boolean;
+  allow_rebase_merge?: boolean;
+  allow_auto_merge?: boolean;
+  delete_branch_on_merge?: boolean;
+  topics?: string[];
+  license: {
+    key: string;
+    name: string;
+    spdx_id: string | null;
+  } | null;
+  default_branch: string;
+  archived: boolean;
+  disabled: boolean;
+  fork: boolean;
+  is_template?: boolean;
+  open_issues_count: number;
+  /** Size in kilobytes */
+  size: number;
+  visibility?: RepositoryVisibility;
+  watchers_count: number;
   created_at: string;
   updated_at: string;
   pushed_at: string;
@@ -24,6 +47,8 @@ export interface GitHubRepository {
   };
 }
 
+export type RepositoryVisibility = "public" | "private" | "internal";
+
 export interface GitHubUser {
   login: string;
   id: number;
@@ -39,6 +64,20 @@ export interface GitHubUser {
   updated_at: string;
 }
 
+export interface GitHubOrganization {
+  login: string;
+  id: number;
+  avatar_url: string;
+  description: string | null;
+}
+
+export interface FetchRepositoriesOptions {
+  sort?: SortOption;
+  direction?: "asc" | "desc";
+  maxCount?: number;
+  org?: string;
+}
+
 export interface RepositoryUpdateData {
   name?: string;
   description?: string;
@@ -47,6 +86,93 @@ export interface RepositoryUpdateData {
   has_issues?: boolean;
   has_projects?: boolean;
   has_wiki?: boolean;
+  has_discussions?: boolean;
+  allow_squash_merge?: boolean;
+  allow_merge_commit?: boolean;
+  allow_rebase_merge?: boolean;
+  allow_auto_merge?: boolean;
+  delete_branch_on_merge?: boolean;
+  is_template?: boolean;
+  /** Must name an existing branch */
+  default_branch?: string;
+  /** Archived repositories are read-only until unarchived */
+  archived?: boolean;
+  /** Applied through the replace-all-topics endpoint */
+  topics?: string[];
+}
+
+/**
+ * Topic changes; entries may contain {name}, {owner} and {language} placeholders
+ */
+export interface TopicEdit {
+  replace?: string[];
+  add?: string[];
+  remove?: string[];
+}
+
+export interface DryRunEntry {
+  repo: string;
+  /** What would be done besides a repository update, e.g. "transfer" */
+  action?: string;
+  before: RepositoryUpdateData | Record<string, unknown>;
+  after: RepositoryUpdateData | Record<string, unknown>;
+}
+
+export interface JournalEntry {
+  batch_id: string;
+  timestamp: string;
+  /** owner/name at the time of the update */
+  repo: string;
+  before: RepositoryUpdateData;
+  after: RepositoryUpdateData;
+  /** Set on entries written by `undo`: the batch they rolled back */
+  undoes?: string;
+}
+
+export interface JournalBatch {
+  id: string;
+  timestamp: string;
+  entries: JournalEntry[];
+  /** The batch this one rolled back, when it was written by `undo` */
+  undoes?: string;
+}
+
+/**
+ * Repository settings that can be declared in a manifest
+ */
+export type ManagedRepositorySettings = Pick<
+  RepositoryUpdateData,
+  | "description"
+  | "homepage"
+  | "private"
+  | "has_issues"
+  | "has_wiki"
+  | "has_projects"
+>;
+
+export interface RepositoryManifest {
+  /** Settings applied to every listed repository unless overridden */
+  defaults?: ManagedRepositorySettings;
+  repositories: Record<string, ManagedRepositorySettings>;
+}
+
+export interface ManifestChange {
+  field: keyof ManagedRepositorySettings;
+  from: string | boolean | null | undefined;
+  to: string | boolean;
+}
+
+export interface ManifestPlanEntry {
+  owner: string;
+  repo: string;
+  changes: ManifestChange[];
+  data: RepositoryUpdateData;
+}
+
+export interface ManifestPlan {
+  entries: ManifestPlanEntry[];
+  /** Repositories declared in the manifest but not found live */
+  missing: string[];
 }
 
 export interface RepositoryStats {
@@ -61,10 +187,14 @@ export interface FormattedRepositoryData {
   total_repositories: number;
   public_repositories: number;
   private_repositories: number;
+  /** Present when health was scored */
+  average_health_score?: number;
   repositories: FormattedRepository[];
 }
 
 export interface FormattedRepository {
+  /** GitHub repository ID, used to recognize renames between snapshots */
+  id?: number;
   name: string;
   description: string | null;
   stars: number;
@@ -73,23 +203,620 @@ export interface FormattedRepository {
   private: boolean;
   homepage: string | null;
   repository_url: string;
+  topics: string[];
+  license: string | null;
+  default_branch: string;
+  archived: boolean;
+  disabled: boolean;
+  fork: boolean;
+  is_template: boolean;
+  open_issues: number;
+  size_kb: number;
+  visibility: RepositoryVisibility;
+  watchers: number;
   created_at: string;
   updated_at: string;
   pushed_at: string;
+  health_score?: number;
+}
+
+export type RepositoryFieldType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "date"
+  | "list";
+
+export interface RepositoryField {
+  type: RepositoryFieldType;
+  value: (
+    repo: GitHubRepository
+  ) => string | number | boolean | string[] | null;
 }
 
+export type FilterOperator = ":" | ">" | ">=" | "<" | "<=" | "~";
+
+export interface FilterTerm {
+  /** Canonical field name, or undefined for free text matched against name and description */
+  field?: string;
+  operator: FilterOperator;
+  value: string;
+  negate: boolean;
+}
+
+export interface RepositoryQuery {
+  expression: string;
+  terms: FilterTerm[];
+}
+
+export type FlagFilterMode = "include" | "exclude" | "only";
+
+export interface RepositoryFilter {
+  query?: RepositoryQuery;
+  archived?: FlagFilterMode;
+  forks?: FlagFilterMode;
+  /** Repositories must have every topic */
+  topics?: string[];
+  /** SPDX identifier, or "none" for repositories without a license */
+  license?: string;
+}
+
+/**
+ * Sort orders supported by the repository listing endpoints
+ */
 export type SortOption = "updated" | "created" | "pushed" | "full_name";
 
-export type OutputFormat = "txt" | "json" | "csv";
+export interface SortKey {
+  /** Canonical field name from REPOSITORY_FIELDS */
+  field: string;
+  descending: boolean;
+}
+
+export type CsvColumn =
+  | "name"
+  | "description"
+  | "stars"
+  | "forks"
+  | "language"
+  | "private"
+  | "homepage"
+  | "url"
+  | "topics"
+  | "license"
+  | "default_branch"
+  | "archived"
+  | "disabled"
+  | "fork"
+  | "is_template"
+  | "open_issues"
+  | "size"
+  | "visibility"
+  | "watchers"
+  | "created_at"
+  | "updated_at"
+  | "pushed_at"
+  | "health";
+
+export interface CsvOptions {
+  columns?: CsvColumn[];
+  delimiter?: string;
+}
+
+export interface CsvImportPlan {
+  updates: Array<{
+    owner: string;
+    repo: string;
+    before: RepositoryUpdateData;
+    data: RepositoryUpdateData;
+  }>;
+  /** Names in the CSV that match no fetched repository */
+  unknown: string[];
+}
+
+export type OutputFormat = "txt" | "json" | "csv" | "md" | "html";
 
 export interface CLIOptions {
   token?: string;
   user?: string;
-  sort?: SortOption;
+  org?: string;
+  sort?: SortKey[];
+  file?: string;
+  limit?: number;
+  concurrency?: number;
+  checkHomepages?: boolean;
+  checkProtection?: boolean;
+  rules?: string;
+  baseline?: string;
+  csvColumns?: CsvColumn[];
+  csvDelimiter?: string;
+  dryRun?: boolean;
+  dryRunFile?: string;
+  journal?: string;
+  snapshotDir?: string;
+  cacheDir?: string;
+  offline?: boolean;
+  refresh?: boolean;
+  filter?: RepositoryQuery;
+  archived?: FlagFilterMode;
+  forks?: FlagFilterMode;
+  topic?: string[];
+  license?: string;
+}
+
+export interface ExportCommandOptions {
+  file?: string;
+  /** Score repository health and include it in the export */
+  health?: boolean;
+}
+
+export interface AnalyzeCommandOptions {
   file?: string;
+  failOnIssues?: boolean;
+  /** Check community files and score repository health */
+  health?: boolean;
+}
+
+/**
+ * Repository setting flags shared by `edit` and `batch-edit custom-updates`
+ */
+export interface SettingsCommandOptions {
+  issues?: boolean;
+  wiki?: boolean;
+  projects?: boolean;
+  discussions?: boolean;
+  squashMerge?: boolean;
+  mergeCommit?: boolean;
+  rebaseMerge?: boolean;
+  autoMerge?: boolean;
+  deleteBranchOnMerge?: boolean;
+  template?: boolean;
+  defaultBranch?: string;
+}
+
+export interface EditCommandOptions extends SettingsCommandOptions {
+  description?: string;
+  homepage?: string;
+  visibility?: "public" | "private";
+  setTopics?: string[];
+  addTopics?: string[];
+  removeTopics?: string[];
+}
+
+export type BatchEditMode =
+  | "add-description"
+  | "fix-homepage"
+  | "update-privacy"
+  | "custom-updates"
+  | "auto-fix"
+  | "topics"
+  | "archive-stale"
+  | "unarchive";
+
+export interface BatchEditCommandOptions extends SettingsCommandOptions {
+  repos?: string[];
+  months?: number;
+  report?: string;
+  description?: string;
+  homepage?: string;
+  visibility?: "public" | "private";
+  setTopics?: string[];
+  addTopics?: string[];
+  removeTopics?: string[];
+  /** archive-stale: archive every stale repository when none are selected */
+  yes?: boolean;
+}
+
+export type LifecycleAction = "archive" | "unarchive";
+
+export interface StaleRepository {
+  repo: GitHubRepository;
+  /** null for repositories that were never pushed to */
+  lastPush: string | null;
+  monthsInactive: number | null;
+}
+
+export interface LifecycleReportEntry {
+  repo: string;
+  action: LifecycleAction;
+  lastPush: string | null;
+  success: boolean;
+  error?: string;
+}
+
+export type MoveAction = "rename" | "transfer";
+
+export interface RenameCommandOptions {
+  repos?: string[];
+  pattern: string;
+  mapping?: string;
+}
+
+export interface TransferCommandOptions {
+  repos?: string[];
+  mapping?: string;
+}
+
+/**
+ * A planned rename or transfer, with full names as owner/name
+ */
+export interface RepositoryMove {
+  repo: GitHubRepository;
+  from: string;
+  to: string;
+}
+
+export interface RepositoryMovePlan {
+  action: MoveAction;
+  moves: RepositoryMove[];
+  /** Moves that cannot be applied, with the reason */
+  conflicts: Array<{ from: string; to: string; reason: string }>;
+  /** Repositories whose name the pattern leaves unchanged */
+  unchanged: string[];
+}
+
+/**
+ * Old and new location of a moved repository, for updating links
+ */
+export interface RepositoryMapping {
+  action: MoveAction;
+  from: string;
+  to: string;
+  from_url: string;
+  to_url: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface SyncCommandOptions {
+  repos?: string[];
+  /** Delete labels and milestones missing from the file */
+  delete?: boolean;
+  /** Apply planned deletions without stopping */
+  yes?: boolean;
+}
+
+export interface LabelDefinition {
+  name: string;
+  /** Six hex digits without "#" */
+  color: string;
+  description?: string;
+}
+
+export interface MilestoneDefinition {
+  title: string;
+  description?: string;
+  /** YYYY-MM-DD */
+  due_on?: string;
+  state?: "open" | "closed";
+}
+
+/**
+ * Labels and milestones every selected repository should have
+ */
+/**
+ * Labels and milestones from a file; a kind the file leaves out is undefined
+ * and is neither synced nor deleted
+ */
+export interface LabelSet {
+  labels?: LabelDefinition[];
+  milestones?: MilestoneDefinition[];
+}
+
+export interface GitHubLabel {
+  name: string;
+  color: string;
+  description: string | null;
+}
+
+export interface GitHubMilestone {
+  number: number;
+  title: string;
+  description: string | null;
+  due_on: string | null;
+  state: "open" | "closed";
+}
+
+export type SyncAction = "create" | "update" | "delete";
+
+/**
+ * One label or milestone change; `changes` lists the fields an update touches
+ */
+export type SyncChange =
+  | {
+      kind: "label";
+      action: SyncAction;
+      name: string;
+      /** Name on GitHub, which may differ in case */
+      currentName?: string;
+      changes: string[];
+      label?: LabelDefinition;
+    }
+  | {
+      kind: "milestone";
+      action: SyncAction;
+      name: string;
+      number?: number;
+      changes: string[];
+      milestone?: MilestoneDefinition;
+    };
+
+export interface RepositorySyncPlan {
+  owner: string;
+  repo: string;
+  changes: SyncChange[];
+  /** Set when the current labels or milestones could not be read */
+  error?: string;
+}
+
+export interface UndoCommandOptions {
+  list?: boolean;
+}
+
+export interface SnapshotCommandOptions {
+  list?: boolean;
+}
+
+export type DiffFormat = "text" | "json";
+
+export interface DiffCommandOptions {
+  format?: DiffFormat;
+}
+
+export interface SnapshotInfo {
+  owner: string;
+  /** Filesystem-safe ISO timestamp, also the snapshot's ID */
+  id: string;
+  timestamp: string;
+  file: string;
+}
+
+export type SnapshotField =
+  | "stars"
+  | "forks"
+  | "private"
+  | "description"
+  | "homepage"
+  | "language";
+
+export interface SnapshotRepositoryChange {
+  name: string;
+  changes: Partial<Record<SnapshotField, { before: unknown; after: unknown }>>;
+}
+
+export interface SnapshotDiff {
+  from: { label: string; total: number; stars: number; forks: number };
+  to: { label: string; total: number; stars: number; forks: number };
+  added: string[];
+  removed: string[];
+  renamed: Array<{ from: string; to: string }>;
+  changed: SnapshotRepositoryChange[];
+}
+
+export type HomepageStatus =
+  | "ok"
+  | "redirected"
+  | "client-error"
+  | "server-error"
+  | "dns-failure"
+  | "tls-error"
+  | "timeout"
+  | "network-error";
+
+export interface HomepageCheckResult {
+  /** URL that was requested */
+  url: string;
+  status: HomepageStatus;
+  statusCode?: number;
+  /** Where the redirects ended, when status is "redirected" */
+  finalUrl?: string;
+  error?: string;
+}
+
+export type RuleSeverity = "error" | "warning" | "info";
+
+export interface AnalysisContext {
+  /** HTTP check results by repository ID, empty unless homepages were checked */
+  homepageChecks: Map<number, HomepageCheckResult>;
+  /** Default branch protection by repository ID, empty unless it was checked */
+  branchProtection: Map<number, BranchProtectionStatus>;
+  /** Full repository responses by ID, empty unless a rule requires details */
+  repositoryDetails: Map<number, GitHubRepository>;
+  /** Community file presence by ID, empty unless community files were checked */
+  communityFiles: Map<number, CommunityFiles>;
+}
+
+export type CommunityFileKind =
+  | "readme"
+  | "license"
+  | "contributing"
+  | "code_of_conduct"
+  | "security";
+
+/**
+ * Community files found in a repository's root, .github or docs directory
+ */
+export type CommunityFiles = Record<CommunityFileKind, boolean>;
+
+/**
+ * A local template for a community file, committed under its own file name
+ */
+export interface CommunityFileTemplate {
+  kind: CommunityFileKind;
+  path: string;
+  content: string;
+}
+
+export interface ScaffoldPlanEntry {
+  repo: GitHubRepository;
+  /** Templates filled in for this repository */
+  files: CommunityFileTemplate[];
+}
+
+export interface ScaffoldCommandOptions {
+  repos?: string[];
+  /** Commit message, with {file} for the file name */
+  message?: string;
+}
+
+/**
+ * Where a suggested description came from
+ */
+export type DescriptionSource =
+  | "README"
+  | "package.json"
+  | "pyproject.toml"
+  | "language and topics";
+
+export interface DescriptionSuggestion {
+  repo: GitHubRepository;
+  description: string;
+  source: DescriptionSource;
+}
+
+export type HealthFactor =
+  | "description"
+  | "homepage"
+  | "readme"
+  | "license"
+  | "contributing"
+  | "topics"
+  | "activity"
+  | "issues";
+
+/**
+ * A repository's 0-100 health score and the points earned per factor
+ */
+export interface HealthScore {
+  repo: GitHubRepository;
+  score: number;
+  factors: Array<{ factor: HealthFactor; points: number; max: number }>;
+}
+
+/**
+ * Boolean repository settings managed by the edit flows and baselines
+ */
+export type BooleanRepositorySetting =
+  | "has_issues"
+  | "has_wiki"
+  | "has_projects"
+  | "has_discussions"
+  | "allow_squash_merge"
+  | "allow_merge_commit"
+  | "allow_rebase_merge"
+  | "allow_auto_merge"
+  | "delete_branch_on_merge"
+  | "is_template";
+
+/**
+ * Settings every repository is expected to have; omitted settings are not checked
+ */
+export type SettingsBaseline = Partial<
+  Record<BooleanRepositorySetting, boolean>
+> & { default_branch?: string };
+
+export interface SettingsDrift {
+  field: keyof SettingsBaseline;
+  expected: boolean | string;
+  actual: boolean | string;
+}
+
+/**
+ * Protection of a repository's default branch
+ */
+export interface BranchProtectionStatus {
+  branch: string;
+  protected: boolean;
+  allowsForcePushes: boolean;
+  requiredReviews: number;
+  statusChecks: string[];
+  linearHistory: boolean;
+}
+
+/**
+ * Branch protection settings applied by `protect`; force pushes and branch
+ * deletion are always disabled
+ */
+export interface ProtectionProfile {
+  /** Approving reviews required before merging, 0 for none */
+  required_reviews: number;
+  dismiss_stale_reviews?: boolean;
+  require_code_owner_reviews?: boolean;
+  /** Status check contexts that must pass before merging */
+  status_checks: string[];
+  /** Require branches to be up to date with the base branch before merging */
+  strict_status_checks?: boolean;
+  linear_history: boolean;
+  enforce_admins?: boolean;
+}
+
+export interface ProtectCommandOptions {
+  repos?: string[];
+  profile: string;
+  requiredReviews?: number;
+  statusChecks?: string[];
+  linearHistory?: boolean;
+  onlyUnprotected?: boolean;
+}
+
+/**
+ * A single analysis check, built-in or registered by a team
+ */
+export interface AnalysisRule {
+  id: string;
+  /** Plural summary label, e.g. "repositories missing descriptions" */
+  title: string;
+  severity: RuleSeverity;
+  check: (repo: GitHubRepository, context: AnalysisContext) => boolean;
+  /** Extra report line explaining why a repository was flagged */
+  describe?: (repo: GitHubRepository, context: AnalysisContext) => string;
+  /** Fetch each repository's full details first (merge settings are missing from lists) */
+  requiresDetails?: boolean;
+  /** Update that fixes a flagged repository, if one can be derived */
+  autoFix?: (
+    repo: GitHubRepository,
+    context: AnalysisContext
+  ) => RepositoryUpdateData | undefined;
+}
+
+export interface RuleResult {
+  rule: AnalysisRule;
+  repositories: GitHubRepository[];
+}
+
+export interface RepositoryAnalysis {
+  results: RuleResult[];
+  context: AnalysisContext;
+  /** Present when homepages were checked over HTTP */
+  homepageChecks?: Array<{
+    repo: GitHubRepository;
+    result: HomepageCheckResult;
+  }>;
+  /** Health scores, highest first; present when health was scored */
+  health?: HealthScore[];
+}
+
+/**
+ * Process exit codes used by the non-interactive subcommands
+ */
+export enum ExitCode {
+  Success = 0,
+  Error = 1,
+  UsageError = 2,
+  PartialFailure = 3,
+  IssuesFound = 4,
 }
 
 export interface AuthenticationResult {
   username: string;
   isAuthenticated: boolean;
 }
+
+export interface CachedResponse {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  /** Pagination links, needed to continue paging from a cached page */
+  link?: string;
+  storedAt: string;
+  data: unknown;
+}